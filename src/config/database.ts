@@ -1,25 +1,21 @@
 import mongoose from "mongoose";
 import { loggerHelpers } from "../utils/logger";
-import dotenv from "dotenv";
+import { config } from "./env";
 
 // Database configuration
 const DB_CONFIG = {
   // Connection options
-  maxPoolSize: parseInt(process.env.MONGODB_MAX_POOL_SIZE || "10"),
-  minPoolSize: parseInt(process.env.MONGODB_MIN_POOL_SIZE || "2"),
-  maxIdleTimeMS: parseInt(process.env.MONGODB_MAX_IDLE_TIME || "30000"),
-  serverSelectionTimeoutMS: parseInt(
-    process.env.MONGODB_SERVER_SELECTION_TIMEOUT || "5000"
-  ),
-  socketTimeoutMS: parseInt(process.env.MONGODB_SOCKET_TIMEOUT || "45000"),
-  connectTimeoutMS: parseInt(process.env.MONGODB_CONNECT_TIMEOUT || "10000"),
+  maxPoolSize: config.mongo.maxPoolSize,
+  minPoolSize: config.mongo.minPoolSize,
+  maxIdleTimeMS: config.mongo.maxIdleTimeMs,
+  serverSelectionTimeoutMS: config.mongo.serverSelectionTimeoutMs,
+  socketTimeoutMS: config.mongo.socketTimeoutMs,
+  connectTimeoutMS: config.mongo.connectTimeoutMs,
 
   // Retry options (these are NOT passed to mongoose)
   // retryWrites and retryReads are valid, but maxRetries and retryDelay are not
   retryWrites: true,
   retryReads: true,
-  // maxRetries: parseInt(process.env.MONGODB_MAX_RETRIES || "3"), // REMOVE
-  // retryDelay: parseInt(process.env.MONGODB_RETRY_DELAY || "1000"), // REMOVE
 
   // Write concern
   writeConcern: {
@@ -32,9 +28,9 @@ const DB_CONFIG = {
   readPreference: "primaryPreferred",
 
   // Monitoring
-  monitorCommands: process.env.NODE_ENV !== "production",
+  monitorCommands: !config.isProduction,
 };
-dotenv.config();
+
 // Connection state tracking
 let connectionAttempts = 0;
 let isConnected = false;
@@ -57,13 +53,9 @@ class DatabaseConnection {
     };
     this.options = mongooseOptions;
     this.maxRetries =
-      typeof maxRetries === "number"
-        ? maxRetries
-        : parseInt(process.env.MONGODB_MAX_RETRIES || "3");
+      typeof maxRetries === "number" ? maxRetries : config.mongo.maxRetries;
     this.retryDelay =
-      typeof retryDelay === "number"
-        ? retryDelay
-        : parseInt(process.env.MONGODB_RETRY_DELAY || "1000");
+      typeof retryDelay === "number" ? retryDelay : config.mongo.retryDelayMs;
   }
 
   // Connect to database with retry logic
@@ -276,9 +268,7 @@ class DatabaseConnection {
 }
 
 // Create and export database connection instance
-const MONGODB_URI =
-  process.env.MONGODB_URI || "mongodb://localhost:27017/roomloop";
-export const dbConnection = new DatabaseConnection(MONGODB_URI);
+export const dbConnection = new DatabaseConnection(config.mongo.uri);
 
 // Export connection function for easy use
 export const connectDatabase = () => dbConnection.connect();
@@ -0,0 +1,339 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+
+// Application configuration, read from the environment once at startup.
+// Outside production, missing settings fall back to local development
+// defaults. In production every required setting must be given explicitly
+// and known default or placeholder values are refused, so the server cannot
+// quietly run on a hardcoded secret.
+
+dotenv.config();
+
+// Secrets that have appeared as fallbacks or examples in this codebase
+const KNOWN_DEFAULT_SECRETS = [
+  "roomloop_secret_key",
+  "default_secret",
+  "your_jwt_secret_key_here_change_in_production",
+];
+
+// Example values from the README
+const PLACEHOLDER_API_KEYS = [
+  "your_openrouter_api_key_here",
+  "hf_your_huggingface_key_here",
+];
+
+const DEVELOPMENT_JWT_SECRET = "roomloop_secret_key";
+const MAIL_TRANSPORTS = ["smtp", "file", "memory", "disabled"] as const;
+const MIN_PRODUCTION_SECRET_LENGTH = 32;
+
+// A key that signs or verifies JWTs. The id goes in the token's "kid" header
+// so verification can pick the right key during a rotation
+export interface JwtKey {
+  id: string;
+  secret: string;
+}
+
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+export interface AppConfig {
+  nodeEnv: string;
+  isProduction: boolean;
+  port: number;
+  jwt: {
+    signingKey: JwtKey; // JWT_SECRET
+    verificationKeys: JwtKey[]; // JWT_SECRET, then JWT_PREVIOUS_SECRETS
+    accessTokenTtl: string;
+    refreshTokenTtlDays: number;
+  };
+  mongo: {
+    uri: string;
+    maxPoolSize: number;
+    minPoolSize: number;
+    maxIdleTimeMs: number;
+    serverSelectionTimeoutMs: number;
+    socketTimeoutMs: number;
+    connectTimeoutMs: number;
+    maxRetries: number; // Reconnect attempts before giving up
+    retryDelayMs: number;
+  };
+  redis: {
+    host: string;
+    port: number;
+    password?: string;
+    db: number;
+    socketAdapter: boolean; // Share Socket.IO events between instances
+  };
+  cors: {
+    origin: string;
+  };
+  ai: {
+    openRouterApiKey?: string;
+    huggingFaceApiKey?: string;
+    ollamaBaseUrl: string;
+  };
+  mail: {
+    transport: MailTransportName; // "smtp" sends mail; "memory" keeps it in process, "file" writes it to outboxDir, "disabled" drops it
+    smtp: {
+      host?: string;
+      port: number;
+      secure: boolean; // TLS from the start, usually port 465
+      user?: string;
+      password?: string;
+    };
+    outboxDir: string;
+    from: string;
+    appUrl: string; // Base URL for links in mail
+  };
+  accountTokens: {
+    passwordResetTtlMinutes: number;
+    emailVerificationTtlHours: number;
+    emailVerificationResendSeconds: number; // Minimum gap between verification mails
+  };
+  twoFactor: {
+    issuer: string; // Account name shown in authenticator apps
+    challengeTtl: string; // How long a login has to complete the second step
+  };
+  scheduler: {
+    intervalMs: number; // Time between room status passes
+    batchSize: number; // Most rooms moved to each status per pass
+    seriesIntervalMs: number; // How often recurring series are extended
+  };
+  series: {
+    horizonDays: number; // Rooms are created this far ahead of their start
+  };
+  waitlist: {
+    offerWindowMs: number; // How long a promoted user has to confirm a seat
+  };
+  messages: {
+    editWindowMs: number; // How long a sender can edit a message
+    resyncMaxMessages: number; // Longest gap replayed to a reconnecting client
+  };
+  realtime: {
+    typingThrottleMs: number;
+    typingExpiryMs: number;
+    reactionBurstWindowMs: number; // Reactions this close together are coalesced
+  };
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n- ${problems.join("\n- ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+const toJwtKey = (secret: string): JwtKey => ({
+  id: crypto.createHash("sha256").update(secret).digest("hex").slice(0, 12),
+  secret,
+});
+
+// Build the configuration from an environment, collecting every problem
+// rather than stopping at the first
+export const loadConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): { config: AppConfig; problems: string[] } => {
+  const problems: string[] = [];
+  const nodeEnv = env.NODE_ENV || "development";
+  const isProduction = nodeEnv === "production";
+
+  // Settings production must set; elsewhere the development default is used
+  const required = (name: string, developmentDefault: string): string => {
+    const value = env[name];
+    if (value) {
+      return value;
+    }
+    if (isProduction) {
+      problems.push(`${name} is required in production`);
+    }
+    return developmentDefault;
+  };
+
+  const integer = (name: string, fallback: number): number => {
+    const raw = env[name];
+    if (raw === undefined || raw === "") {
+      return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      problems.push(`${name} must be a non-negative integer`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const checkSecret = (name: string, secret: string): void => {
+    if (!isProduction) {
+      return;
+    }
+    if (KNOWN_DEFAULT_SECRETS.includes(secret)) {
+      problems.push(`${name} is a known default value`);
+    } else if (secret.length < MIN_PRODUCTION_SECRET_LENGTH) {
+      problems.push(
+        `${name} must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters`
+      );
+    }
+  };
+
+  // Optional API keys; README placeholders count as unset
+  const apiKey = (name: string): string | undefined => {
+    const value = env[name];
+    if (value && PLACEHOLDER_API_KEYS.includes(value)) {
+      if (isProduction) {
+        problems.push(`${name} is a placeholder value`);
+      }
+      return undefined;
+    }
+    return value || undefined;
+  };
+
+  // JWT. Tokens are signed with JWT_SECRET; tokens signed with a secret
+  // listed in JWT_PREVIOUS_SECRETS keep working until they expire
+  const jwtSecret = required("JWT_SECRET", DEVELOPMENT_JWT_SECRET);
+  checkSecret("JWT_SECRET", jwtSecret);
+
+  const previousSecrets = (env.JWT_PREVIOUS_SECRETS || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  previousSecrets.forEach((secret) =>
+    checkSecret("JWT_PREVIOUS_SECRETS", secret)
+  );
+
+  const signingKey = toJwtKey(jwtSecret);
+
+  // CORS
+  const corsOrigin = required("CORS_ORIGIN", "http://localhost:3000");
+  if (isProduction && corsOrigin === "*") {
+    problems.push("CORS_ORIGIN cannot be * in production");
+  }
+
+  // Redis is optional for a single instance, but the Socket.IO adapter
+  // needs a real server
+  const socketAdapter = env.SOCKET_IO_REDIS_ADAPTER === "true";
+
+  // Mail. Sent over SMTP when SMTP_HOST is set. Otherwise the local
+  // outboxes stand in for development and tests: kept in memory under test,
+  // written to files elsewhere. Production never falls back to an outbox,
+  // so reset links are not written to the server's disk; without SMTP its
+  // mail is disabled, which the mailer logs at startup
+  const smtpHost = env.SMTP_HOST || undefined;
+  const defaultMailTransport: MailTransportName = smtpHost
+    ? "smtp"
+    : nodeEnv === "test"
+    ? "memory"
+    : isProduction
+    ? "disabled"
+    : "file";
+  const mailTransport = (env.MAIL_TRANSPORT ||
+    defaultMailTransport) as MailTransportName;
+  if (!MAIL_TRANSPORTS.includes(mailTransport)) {
+    problems.push(
+      `MAIL_TRANSPORT must be one of ${MAIL_TRANSPORTS.join(", ")}`
+    );
+  } else if (mailTransport === "smtp" && !smtpHost) {
+    problems.push("SMTP_HOST is required for the smtp mail transport");
+  }
+
+  const config: AppConfig = {
+    nodeEnv,
+    isProduction,
+    port: integer("PORT", 5000),
+    jwt: {
+      signingKey,
+      verificationKeys: [signingKey, ...previousSecrets.map(toJwtKey)],
+      accessTokenTtl: env.ACCESS_TOKEN_TTL || "15m",
+      refreshTokenTtlDays: integer("REFRESH_TOKEN_TTL_DAYS", 30),
+    },
+    mongo: {
+      uri: required("MONGODB_URI", "mongodb://localhost:27017/roomloop"),
+      maxPoolSize: integer("MONGODB_MAX_POOL_SIZE", 10),
+      minPoolSize: integer("MONGODB_MIN_POOL_SIZE", 2),
+      maxIdleTimeMs: integer("MONGODB_MAX_IDLE_TIME", 30000),
+      serverSelectionTimeoutMs: integer(
+        "MONGODB_SERVER_SELECTION_TIMEOUT",
+        5000
+      ),
+      socketTimeoutMs: integer("MONGODB_SOCKET_TIMEOUT", 45000),
+      connectTimeoutMs: integer("MONGODB_CONNECT_TIMEOUT", 10000),
+      maxRetries: integer("MONGODB_MAX_RETRIES", 3),
+      retryDelayMs: integer("MONGODB_RETRY_DELAY", 1000),
+    },
+    redis: {
+      host: socketAdapter
+        ? required("REDIS_HOST", "localhost")
+        : env.REDIS_HOST || "localhost",
+      port: integer("REDIS_PORT", 6379),
+      password: env.REDIS_PASSWORD || undefined,
+      db: integer("REDIS_DB", 0),
+      socketAdapter,
+    },
+    cors: {
+      origin: corsOrigin,
+    },
+    ai: {
+      openRouterApiKey: apiKey("OPENROUTER_API_KEY"),
+      huggingFaceApiKey: apiKey("HUGGINGFACE_API_KEY"),
+      ollamaBaseUrl: env.OLLAMA_BASE_URL || "http://localhost:11434",
+    },
+    mail: {
+      transport: mailTransport,
+      smtp: {
+        host: smtpHost,
+        port: integer("SMTP_PORT", 587),
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+      },
+      outboxDir: env.MAIL_OUTBOX_DIR || "mail-outbox",
+      from: env.MAIL_FROM || "RoomLoop <no-reply@roomloop.local>",
+      appUrl: env.APP_URL || corsOrigin,
+    },
+    accountTokens: {
+      passwordResetTtlMinutes: integer("PASSWORD_RESET_TTL_MINUTES", 30),
+      emailVerificationTtlHours: integer("EMAIL_VERIFICATION_TTL_HOURS", 24),
+      emailVerificationResendSeconds: integer(
+        "EMAIL_VERIFICATION_RESEND_SECONDS",
+        60
+      ),
+    },
+    twoFactor: {
+      issuer: env.TWO_FACTOR_ISSUER || "RoomLoop",
+      challengeTtl: env.TWO_FACTOR_CHALLENGE_TTL || "5m",
+    },
+    scheduler: {
+      intervalMs: integer("ROOM_SCHEDULER_INTERVAL_MS", 15000),
+      batchSize: integer("ROOM_SCHEDULER_BATCH_SIZE", 100),
+      seriesIntervalMs: integer("SERIES_EXTEND_INTERVAL_MS", 3600000),
+    },
+    series: {
+      horizonDays: integer("SERIES_HORIZON_DAYS", 14),
+    },
+    waitlist: {
+      offerWindowMs: integer("WAITLIST_OFFER_WINDOW_MS", 600000),
+    },
+    messages: {
+      editWindowMs: integer("MESSAGE_EDIT_WINDOW_MS", 900000),
+      resyncMaxMessages: integer("RESYNC_MAX_MESSAGES", 100),
+    },
+    realtime: {
+      typingThrottleMs: integer("TYPING_THROTTLE_MS", 2000),
+      typingExpiryMs: integer("TYPING_EXPIRY_MS", 6000),
+      reactionBurstWindowMs: integer("REACTION_BURST_WINDOW_MS", 300),
+    },
+  };
+
+  return { config, problems };
+};
+
+const loaded = loadConfig();
+
+export const config = loaded.config;
+
+// Called first thing at boot. Throws a ConfigError listing every problem
+export const assertValidConfig = (): void => {
+  if (loaded.problems.length > 0) {
+    throw new ConfigError(loaded.problems);
+  }
+};
+
+export default config;
@@ -1,15 +1,15 @@
 import { Request, Response } from "express";
-import jwt from "jsonwebtoken";
 import User, { IUser } from "../models/User";
 import { recordLoginAttempt } from "../middleware/security";
+import sessionService from "../services/sessions";
+import accountTokenService from "../services/accountTokens";
+import mailer from "../services/mailer";
+import emailVerificationService from "../services/emailVerification";
+import twoFactorService from "../services/twoFactor";
+import { AccountTokenPurpose } from "../models/AccountToken";
+import { config } from "../config/env";
 import { loggerHelpers } from "../utils/logger";
 
-// Generate JWT token
-const generateToken = (userId: string): string => {
-  const JWT_SECRET = process.env.JWT_SECRET || "roomloop_secret_key";
-  return jwt.sign({ id: userId }, JWT_SECRET, { expiresIn: "7d" });
-};
-
 // Register a new user
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -33,12 +33,27 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       username,
       email,
       password,
+      emailVerified: false,
     });
 
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id);
+    // Mail the verification link. A failure here should not undo the
+    // registration; the user can ask for another link
+    try {
+      await emailVerificationService.sendVerification(user._id);
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: "email_verification_mail",
+        userId: user._id.toString(),
+      });
+    }
+
+    // Start a session
+    const tokens = await sessionService.createSession(user._id, {
+      userAgent: req.get("User-Agent"),
+      ip: req.ip,
+    });
 
     // Log successful registration
     loggerHelpers.logUserAction(user._id, "register", {
@@ -49,11 +64,13 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
     res.status(201).json({
       success: true,
-      token,
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
       user: {
         id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.isEmailVerified(),
       },
     });
   } catch (error) {
@@ -101,6 +118,23 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // With 2FA the session only starts once a code is verified. Failed
+    // attempts are not reset yet, so knowing the password does not reset
+    // the lockout on codes
+    if (user.twoFactorEnabled) {
+      loggerHelpers.logUserAction(user._id, "login_2fa_challenge", {
+        ip: req.ip,
+      });
+
+      res.status(200).json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: twoFactorService.createChallenge(user._id, identifier),
+        expiresIn: config.twoFactor.challengeTtl,
+      });
+      return;
+    }
+
     // Record successful login
     recordLoginAttempt(identifier, true);
 
@@ -111,18 +145,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       userAgent: req.get("User-Agent"),
     });
 
-    // Generate token
-    const token = generateToken(user._id);
-
-    res.status(200).json({
-      success: true,
-      token,
-      user: {
-        id: user._id,
-        username: user.username,
-        email: user.email,
-      },
-    });
+    await sendNewSession(req, res, user);
   } catch (error) {
     loggerHelpers.logError(error as Error, {
       action: "login",
@@ -136,6 +159,30 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+// Start a session and answer with its tokens, for a completed login
+const sendNewSession = async (
+  req: Request,
+  res: Response,
+  user: IUser
+): Promise<void> => {
+  const tokens = await sessionService.createSession(user._id, {
+    userAgent: req.get("User-Agent"),
+    ip: req.ip,
+  });
+
+  res.status(200).json({
+    success: true,
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    user: {
+      id: user._id,
+      username: user.username,
+      email: user.email,
+      emailVerified: user.isEmailVerified(),
+    },
+  });
+};
+
 // Get current user
 export const getCurrentUser = async (
   req: Request,
@@ -151,6 +198,8 @@ export const getCurrentUser = async (
         id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.isEmailVerified(),
+        twoFactorEnabled: user.twoFactorEnabled,
         createdRooms: user.createdRooms,
         joinedRooms: user.joinedRooms,
         invitedToRooms: user.invitedToRooms,
@@ -164,3 +213,537 @@ export const getCurrentUser = async (
     });
   }
 };
+
+// Exchange a refresh token for a new access token and refresh token
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await sessionService.refresh(req.body.refreshToken);
+
+    if (!result.ok) {
+      if (result.reason === "reused") {
+        loggerHelpers.logSecurityEvent(
+          "refresh_token_reuse",
+          req.ip || "",
+          undefined,
+          {
+            userAgent: req.get("User-Agent"),
+          }
+        );
+      }
+
+      res.status(401).json({
+        success: false,
+        reason: result.reason,
+        message: "Invalid or expired refresh token",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      token: result.tokens.accessToken,
+      refreshToken: result.tokens.refreshToken,
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "refresh",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Token refresh failed",
+    });
+  }
+};
+
+// Log out of the current session
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    await sessionService.revokeSession(req.sessionId!, "logout");
+
+    loggerHelpers.logUserAction(user._id, "logout", { ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out",
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "logout",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Logout failed",
+    });
+  }
+};
+
+// Log out of every session, on every device
+export const logoutAll = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    const revoked = await sessionService.revokeAllSessions(
+      user._id,
+      "logout_all"
+    );
+
+    loggerHelpers.logUserAction(user._id, "logout_all", {
+      ip: req.ip,
+      sessions: revoked,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out of all sessions",
+      sessionsRevoked: revoked,
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "logout_all",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Logout failed",
+    });
+  }
+};
+
+// Mail a password reset link. The response is the same whether or not the
+// address has an account, so it cannot be used to discover accounts
+export const forgotPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email });
+
+    if (user) {
+      const token = await accountTokenService.issue(
+        user._id,
+        AccountTokenPurpose.PASSWORD_RESET,
+        config.accountTokens.passwordResetTtlMinutes * 60 * 1000
+      );
+
+      try {
+        await mailer.sendPasswordReset(user.email, token);
+      } catch (error) {
+        // Answer as usual; a failure here must not reveal the account
+        loggerHelpers.logError(error as Error, {
+          action: "password_reset_mail",
+          userId: user._id.toString(),
+        });
+      }
+
+      loggerHelpers.logUserAction(user._id, "password_reset_requested", {
+        ip: req.ip,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message:
+        "If an account exists for that email, a password reset link has been sent",
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "forgot_password",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Password reset request failed",
+    });
+  }
+};
+
+// Set a new password with a reset token. Every existing session is ended,
+// since whoever held them may not know the new password
+export const resetPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    const userId = await accountTokenService.consume(
+      token,
+      AccountTokenPurpose.PASSWORD_RESET
+    );
+    const user = userId ? await User.findById(userId) : null;
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid or expired reset token",
+      });
+      return;
+    }
+
+    user.password = password;
+    await user.save();
+
+    const revoked = await sessionService.revokeAllSessions(
+      user._id,
+      "password_reset"
+    );
+
+    loggerHelpers.logUserAction(user._id, "password_reset", {
+      ip: req.ip,
+      sessions: revoked,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Password has been reset. Please log in with your new password",
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "reset_password",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Password reset failed",
+    });
+  }
+};
+
+// Change the password of the signed-in user. The current session stays
+// signed in; every other session is ended
+export const changePassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    // req.user is loaded without the password hash
+    const user = await User.findById((req.user as IUser)._id);
+
+    if (!user || !(await user.comparePassword(currentPassword))) {
+      loggerHelpers.logSecurityEvent(
+        "password_change_failed",
+        req.ip || "",
+        (req.user as IUser)._id.toString()
+      );
+      res.status(401).json({
+        success: false,
+        message: "Current password is incorrect",
+      });
+      return;
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    const revoked = await sessionService.revokeAllSessions(
+      user._id,
+      "password_change",
+      req.sessionId
+    );
+
+    try {
+      await mailer.sendPasswordChanged(user.email);
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: "password_changed_mail",
+        userId: user._id.toString(),
+      });
+    }
+
+    loggerHelpers.logUserAction(user._id, "password_change", {
+      ip: req.ip,
+      sessions: revoked,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Password changed",
+      sessionsRevoked: revoked,
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "change_password",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Password change failed",
+    });
+  }
+};
+
+// Confirm an email address with the token from the verification mail
+export const verifyEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await emailVerificationService.verify(req.body.token);
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid or expired verification token",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Email address verified",
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "verify_email",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Email verification failed",
+    });
+  }
+};
+
+// Send the signed-in user a new verification link
+export const resendVerificationEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    const result = await emailVerificationService.sendVerification(user._id);
+
+    if (result.status === "already_verified") {
+      res.status(400).json({
+        success: false,
+        message: "Email address is already verified",
+      });
+      return;
+    }
+
+    if (result.status === "throttled") {
+      res.set("Retry-After", result.retryAfterSeconds.toString());
+      res.status(429).json({
+        success: false,
+        message: `Please wait ${result.retryAfterSeconds} seconds before requesting another email`,
+        retryAfterSeconds: result.retryAfterSeconds,
+      });
+      return;
+    }
+
+    if (result.status === "not_found") {
+      res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Verification email sent",
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "resend_verification_email",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Failed to send verification email",
+    });
+  }
+};
+
+// Second login step: exchange the challenge token and a TOTP or recovery
+// code for a session. Failed codes count towards the account lockout
+export const verifyTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // Set by requireTwoFactorChallenge
+    const challenge = req.twoFactorChallenge!;
+
+    const method = await twoFactorService.verifyCode(
+      challenge.userId,
+      req.body.code
+    );
+
+    if (!method) {
+      recordLoginAttempt(challenge.login, false);
+      loggerHelpers.logSecurityEvent(
+        "2fa_code_rejected",
+        req.ip || "",
+        challenge.userId
+      );
+      res.status(401).json({
+        success: false,
+        message: "Invalid authentication code",
+      });
+      return;
+    }
+
+    const user = await User.findById(challenge.userId);
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: "User not found",
+      });
+      return;
+    }
+
+    recordLoginAttempt(challenge.login, true);
+
+    loggerHelpers.logUserAction(user._id, "login", {
+      username: user.username,
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+      twoFactor: method,
+    });
+
+    await sendNewSession(req, res, user);
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: "verify_2fa",
+      ip: req.ip,
+    });
+    res.status(500).json({
+      success: false,
+      message: "Login failed",
+    });
+  }
+};
+
+// Start 2FA enrollment. The secret is shown once, as-is and as an otpauth
+// URI for authenticator apps
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    const setup = await twoFactorService.beginSetup(user._id, user.email);
+
+    if (!setup) {
+      res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is already enabled",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      secret: setup.secret,
+      otpauthUri: setup.otpauthUri,
+    });
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to start two-factor setup",
+    });
+  }
+};
+
+// Finish enrollment with a code from the new secret
+export const confirmTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    const recoveryCodes = await twoFactorService.confirmSetup(
+      user._id,
+      req.body.code
+    );
+
+    if (!recoveryCodes) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid code or no two-factor setup in progress",
+      });
+      return;
+    }
+
+    loggerHelpers.logUserAction(user._id, "2fa_enabled", { ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication enabled",
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error("Two-factor confirm error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to enable two-factor authentication",
+    });
+  }
+};
+
+// Turn 2FA off. Needs the password and a current or recovery code
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+
+    // req.user is loaded without the password hash
+    const user = await User.findById((req.user as IUser)._id);
+
+    if (!user || !user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is not enabled",
+      });
+      return;
+    }
+
+    if (
+      typeof password !== "string" ||
+      !(await user.comparePassword(password)) ||
+      !(await twoFactorService.verifyCode(user._id, code))
+    ) {
+      loggerHelpers.logSecurityEvent(
+        "2fa_disable_failed",
+        req.ip || "",
+        user._id.toString()
+      );
+      res.status(401).json({
+        success: false,
+        message: "Invalid password or authentication code",
+      });
+      return;
+    }
+
+    await twoFactorService.disable(user._id);
+
+    loggerHelpers.logUserAction(user._id, "2fa_disabled", { ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    console.error("Two-factor disable error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to disable two-factor authentication",
+    });
+  }
+};
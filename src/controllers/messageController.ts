@@ -1,8 +1,100 @@
 import { Request, Response } from "express";
-import Message from "../models/Message";
-import Room, { RoomType } from "../models/Room";
+import Message, { IMessage } from "../models/Message";
+import Room from "../models/Room";
 import { IUser } from "../models/User";
+import roomMembership from "../services/roomMembership";
+import messagingService from "../services/messaging";
+import reactionService from "../services/reactions";
+import readMarkerService from "../services/readMarkers";
+import mongoose from "mongoose";
+import { config } from "../config/env";
 import { io } from "../index";
+import { cursorCondition, decodeCursor, encodeCursor } from "../utils/cursor";
+import { threadChannel } from "../utils/channels";
+
+// Default number of messages per page
+const MESSAGE_PAGE_SIZE = 50;
+
+// How long after sending a message its sender can still edit it
+const MESSAGE_EDIT_WINDOW_MS = config.messages.editWindowMs;
+
+// Changes to a reply are sent to clients with its thread open as well as
+// the room
+const messageAudience = (roomId: string, message: IMessage): string[] =>
+  message.parentMessage
+    ? [roomId, threadChannel(message.parentMessage.toString())]
+    : [roomId];
+
+// Load one page of messages matching a filter. Without a cursor the newest
+// page is returned. "before" pages back through older messages, "after"
+// fetches what arrived since a cursor (e.g. after reconnecting). Pages are
+// always returned oldest first
+const findMessagePage = async (
+  filter: Record<string, any>,
+  query: Request["query"],
+  viewerId: mongoose.Types.ObjectId
+) => {
+  const limit = Number(query.limit) || MESSAGE_PAGE_SIZE;
+  const before =
+    typeof query.before === "string" ? decodeCursor(query.before) : null;
+  const after =
+    typeof query.after === "string" ? decodeCursor(query.after) : null;
+
+  const pageFilter = { ...filter };
+  if (before) {
+    Object.assign(pageFilter, cursorCondition(before, "before"));
+  } else if (after) {
+    Object.assign(pageFilter, cursorCondition(after, "after"));
+  }
+
+  // Walk the {room, createdAt, _id} index (or {parentMessage, createdAt,
+  // _id} for threads) away from the cursor, fetching one extra message to
+  // find out whether there is another page. The sort must stay on exactly
+  // the cursor keys, or MongoDB falls back to sorting in memory
+  const direction = after ? 1 : -1;
+  const page = await Message.find(pageFilter)
+    .select("-editHistory")
+    .populate("sender", "username")
+    .sort({ createdAt: direction, _id: direction })
+    .limit(limit + 1);
+
+  const hasMore = page.length > limit;
+  const messages = page.slice(0, limit);
+  if (!after) {
+    messages.reverse();
+  }
+
+  const oldest = messages[0];
+  const newest = messages[messages.length - 1];
+
+  // Attach aggregated reaction counts and the viewer's own reactions
+  const messageIds = messages.map((message) => message._id);
+  const [reactionCounts, viewerReactions] = await Promise.all([
+    reactionService.getCounts(messageIds),
+    reactionService.getUserReactions(messageIds, viewerId),
+  ]);
+
+  return {
+    count: messages.length,
+    messages: messages.map((message) => ({
+      ...message.toObject(),
+      reactions: reactionCounts.get(message._id.toString()) || {},
+      myReactions: viewerReactions.get(message._id.toString()) || [],
+    })),
+    pagination: {
+      limit,
+      hasOlder: after ? true : hasMore,
+      hasNewer: after ? hasMore : Boolean(before),
+      // Pass as "before" to load older messages
+      prevCursor: oldest ? encodeCursor(oldest) : null,
+      // Pass as "after" to load newer messages. Kept when a resync page is
+      // empty so the client can keep using it
+      nextCursor: newest
+        ? encodeCursor(newest)
+        : (query.after as string) || null,
+    },
+  };
+};
 
 // Get messages for a room
 export const getRoomMessages = async (
@@ -24,33 +116,23 @@ export const getRoomMessages = async (
     }
 
     // For private rooms, check if user is authorized
-    if (room.roomType === RoomType.PRIVATE) {
-      const isCreator = room.creator.toString() === user._id.toString();
-      const isParticipant = room.participants.some(
-        (participant) => participant.toString() === user._id.toString()
-      );
-      const isInvited = room.invitedUsers.some(
-        (invited) => invited.toString() === user._id.toString()
-      );
-
-      if (!isCreator && !isParticipant && !isInvited) {
-        res.status(403).json({
-          success: false,
-          message: "Not authorized to view messages in this room",
-        });
-        return;
-      }
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to view messages in this room",
+      });
+      return;
     }
 
-    // Get messages for the room
-    const messages = await Message.find({ room: roomId })
-      .populate("sender", "username")
-      .sort({ createdAt: 1 });
+    // Replies can be left out to show only the main timeline
+    const filter: Record<string, any> = { room: room._id };
+    if (req.query.includeReplies === "false") {
+      filter.parentMessage = null;
+    }
 
     res.status(200).json({
       success: true,
-      count: messages.length,
-      messages,
+      ...(await findMessagePage(filter, req.query, user._id)),
     });
   } catch (error) {
     console.error("Get room messages error:", error);
@@ -68,94 +150,457 @@ export const createMessage = async (
 ): Promise<void> => {
   try {
     const { roomId } = req.params;
+    const { content, parentMessageId, clientMessageId } = req.body;
+    const user = req.user as IUser;
+
+    const result = await messagingService.sendMessage({
+      roomId,
+      sender: user,
+      content,
+      parentMessageId,
+      clientMessageId,
+    });
+
+    if (!result.ok) {
+      res.status(result.status).json({
+        success: false,
+        code: result.code,
+        message: result.message,
+      });
+      return;
+    }
+
+    // A retried request gets the message that was already saved
+    res.status(result.duplicate ? 200 : 201).json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    console.error("Create message error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create message",
+    });
+  }
+};
+
+// Get the replies in a message's thread, oldest first
+export const getMessageReplies = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId, messageId } = req.params;
+    const user = req.user as IUser;
+
+    const [room, parent] = await Promise.all([
+      Room.findById(roomId),
+      Message.findOne({ _id: messageId, room: roomId })
+        .select("-editHistory")
+        .populate("sender", "username"),
+    ]);
+
+    if (!room || !parent) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to view messages in this room",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      parent,
+      ...(await findMessagePage(
+        { parentMessage: parent._id },
+        req.query,
+        user._id
+      )),
+    });
+  } catch (error) {
+    console.error("Get message replies error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch replies",
+    });
+  }
+};
+
+// Edit a message (sender only, within the edit window). The previous content
+// is kept in the message's edit history
+export const updateMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId, messageId } = req.params;
     const { content } = req.body;
     const user = req.user as IUser;
 
-    // Check if room exists
-    const room = await Room.findById(roomId);
-    if (!room) {
+    const message = await Message.findOne({ _id: messageId, room: roomId });
+
+    if (!message || message.deletedAt) {
       res.status(404).json({
         success: false,
-        message: "Room not found",
+        message: "Message not found",
+      });
+      return;
+    }
+
+    if (message.sender.toString() !== user._id.toString()) {
+      res.status(403).json({
+        success: false,
+        message: "You can only edit your own messages",
       });
       return;
     }
 
-    // Check if room is live
-    if (room.status !== "live") {
+    const editableSince = new Date(Date.now() - MESSAGE_EDIT_WINDOW_MS);
+
+    if (message.createdAt <= editableSince) {
       res.status(400).json({
         success: false,
-        message: "Cannot send messages to a room that is not live",
+        message: "Messages can no longer be edited after the edit window",
       });
       return;
     }
 
-    // Check if user is a participant or the creator
-    const isParticipant = room.participants.some(
-      (participant) => participant.toString() === user._id.toString()
-    );
+    if (content === message.content) {
+      res.status(400).json({
+        success: false,
+        message: "Message content is unchanged",
+      });
+      return;
+    }
 
-    const isCreator = room.creator.toString() === user._id.toString();
-
-    if (!isParticipant && !isCreator) {
-      // If not a participant yet, try to auto-join if user is invited
-      const isInvited = room.invitedUsers.some(
-        (invited) => invited.toString() === user._id.toString()
-      );
-
-      if (isInvited) {
-        // Auto-join the room for invited users
-        await Room.findByIdAndUpdate(roomId, {
-          $push: { participants: user._id },
-          $pull: { invitedUsers: user._id },
-        });
-
-        console.log(`Auto-joined user ${user._id} to room ${roomId}`);
-      } else {
-        res.status(403).json({
-          success: false,
-          message: "You must join the room to send messages",
-        });
-        return;
-      }
+    const editedAt = new Date();
+
+    // Matching on the content we read keeps concurrent edits from losing a
+    // version from the history
+    const updatedMessage = await Message.findOneAndUpdate(
+      {
+        _id: message._id,
+        content: message.content,
+        deletedAt: null,
+        createdAt: { $gt: editableSince },
+      },
+      {
+        $set: { content, editedAt },
+        $push: { editHistory: { content: message.content, editedAt } },
+      },
+      { new: true }
+    )
+      .select("-editHistory")
+      .populate("sender", "username");
+
+    if (!updatedMessage) {
+      res.status(409).json({
+        success: false,
+        message: "Message was changed or deleted, please try again",
+      });
+      return;
     }
 
-    // Create new message
-    const message = new Message({
-      content,
-      sender: user._id,
-      room: roomId,
+    io.to(messageAudience(roomId, updatedMessage)).emit("message_updated", {
+      roomId,
+      message: updatedMessage,
+      threadId: updatedMessage.parentMessage || null,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: updatedMessage,
+    });
+  } catch (error) {
+    console.error("Update message error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update message",
     });
+  }
+};
+
+// Delete a message (sender or room creator). The message stays in the
+// timeline as a tombstone without its content
+export const deleteMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId, messageId } = req.params;
+    const user = req.user as IUser;
+
+    const [room, message] = await Promise.all([
+      Room.findById(roomId).select("creator"),
+      Message.findOne({ _id: messageId, room: roomId }),
+    ]);
+
+    if (!room || !message || message.deletedAt) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
 
-    await message.save();
+    const isSender = message.sender.toString() === user._id.toString();
+    const isRoomCreator = room.creator.toString() === user._id.toString();
 
-    // Populate sender info for the response
-    const populatedMessage = await Message.findById(message._id).populate(
-      "sender",
-      "username"
+    if (!isSender && !isRoomCreator) {
+      res.status(403).json({
+        success: false,
+        message: "Only the sender or the room creator can delete this message",
+      });
+      return;
+    }
+
+    const deletedMessage = await Message.findOneAndUpdate(
+      { _id: message._id, deletedAt: null },
+      {
+        $set: {
+          content: "",
+          editHistory: [],
+          deletedAt: new Date(),
+          deletedBy: user._id,
+        },
+      },
+      { new: true }
     );
 
-    // Emit socket event to all users in the room
-    io.to(roomId).emit("receive_message", {
-      roomId: roomId,
-      message: populatedMessage,
-      senderId: user._id.toString(), // Include sender ID for duplicate detection
+    if (!deletedMessage) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    // A deleted reply no longer counts towards its thread
+    const threadParent = deletedMessage.parentMessage
+      ? await messagingService.removeThreadReply(deletedMessage.parentMessage)
+      : null;
+
+    io.to(messageAudience(roomId, deletedMessage)).emit("message_deleted", {
+      roomId,
+      messageId: deletedMessage._id,
+      threadId: deletedMessage.parentMessage || null,
+      deletedAt: deletedMessage.deletedAt,
+      deletedBy: user._id.toString(),
+    });
+
+    if (threadParent) {
+      io.to(roomId).emit("thread_updated", {
+        roomId,
+        messageId: threadParent._id.toString(),
+        replyCount: threadParent.replyCount,
+        lastReplyAt: threadParent.lastReplyAt,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Message deleted",
+    });
+  } catch (error) {
+    console.error("Delete message error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete message",
+    });
+  }
+};
+
+// Get the previous versions of a message
+export const getMessageHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId, messageId } = req.params;
+    const user = req.user as IUser;
+
+    const [room, message] = await Promise.all([
+      Room.findById(roomId),
+      Message.findOne({ _id: messageId, room: roomId }).select(
+        "content editedAt editHistory deletedAt"
+      ),
+    ]);
+
+    if (!room || !message) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to view messages in this room",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      messageId: message._id,
+      content: message.content,
+      editedAt: message.editedAt,
+      deletedAt: message.deletedAt,
+      history: message.editHistory,
+    });
+  } catch (error) {
+    console.error("Get message history error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch message history",
     });
+  }
+};
+
+// Mark a message, and everything before it, as read by the current user
+export const markMessageRead = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId, messageId } = req.params;
+    const user = req.user as IUser;
+
+    const [room, message] = await Promise.all([
+      Room.findById(roomId),
+      Message.findOne({ _id: messageId, room: roomId }).select(
+        "room createdAt"
+      ),
+    ]);
 
-    console.log(
-      `Message saved and broadcasted to room ${roomId}:`,
-      populatedMessage
+    if (!room || !message) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to view messages in this room",
+      });
+      return;
+    }
+
+    const updated = await readMarkerService.markRead(room, user, message);
+    const marker =
+      updated || (await readMarkerService.getMarker(roomId, user._id));
+
+    res.status(200).json({
+      success: true,
+      advanced: updated !== null,
+      marker: marker && {
+        messageId: marker.lastReadMessage,
+        lastReadAt: marker.lastReadAt,
+      },
+    });
+  } catch (error) {
+    console.error("Mark message read error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to mark message as read",
+    });
+  }
+};
+
+// Get the current user's unread mentions, newest first
+export const getUnreadMentions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    const messages = await Message.find({
+      mentions: { $elemMatch: { user: user._id, readAt: null } },
+      deletedAt: null,
+    })
+      .select("content sender room parentMessage createdAt")
+      .populate("sender", "username")
+      .populate("room", "title status")
+      .sort({ createdAt: -1 })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    res.status(200).json({
+      success: true,
+      count: messages.length,
+      mentions: messages,
+    });
+  } catch (error) {
+    console.error("Get unread mentions error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch mentions",
+    });
+  }
+};
+
+// Mark mentions as read: the given messages, or all of them if none are given
+export const markMentionsRead = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageIds } = req.body;
+    const user = req.user as IUser;
+
+    if (
+      messageIds !== undefined &&
+      (!Array.isArray(messageIds) ||
+        messageIds.some(
+          (messageId: unknown) =>
+            typeof messageId !== "string" ||
+            !mongoose.Types.ObjectId.isValid(messageId)
+        ))
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "messageIds must be an array of message IDs",
+      });
+      return;
+    }
+
+    const filter: Record<string, any> = {
+      mentions: { $elemMatch: { user: user._id, readAt: null } },
+    };
+    if (messageIds) {
+      filter._id = { $in: messageIds };
+    }
+
+    const result = await Message.updateMany(
+      filter,
+      { $set: { "mentions.$[mention].readAt": new Date() } },
+      {
+        arrayFilters: [{ "mention.user": user._id, "mention.readAt": null }],
+      }
     );
 
-    res.status(201).json({
+    res.status(200).json({
       success: true,
-      message: populatedMessage,
+      marked: result.modifiedCount,
     });
   } catch (error) {
-    console.error("Create message error:", error);
+    console.error("Mark mentions read error:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to create message",
+      message: "Failed to mark mentions as read",
     });
   }
 };
@@ -1,7 +1,61 @@
 import { Request, Response } from "express";
 import Reaction from "../models/Reaction";
-import Room from "../models/Room";
+import Room, { IRoom, RoomStatus } from "../models/Room";
+import Message from "../models/Message";
 import { IUser } from "../models/User";
+import roomMembership from "../services/roomMembership";
+import reactionService from "../services/reactions";
+import { io } from "../index";
+
+// Make sure the user can react in a room: participants and the creator can,
+// and invited users are joined automatically. Sends the error response and
+// returns false otherwise
+const ensureParticipant = async (
+  room: IRoom,
+  user: IUser,
+  res: Response
+): Promise<boolean> => {
+  const roomId = room._id.toString();
+
+  // Check if user is a participant or creator
+  const isParticipant = room.participants.some(
+    (participantId) => participantId.toString() === user._id.toString()
+  );
+
+  const isCreator = room.creator.toString() === user._id.toString();
+
+  if (!isParticipant && !isCreator) {
+    // If not a participant yet, try to auto-join if user is invited
+    const isInvited = room.invitedUsers.some(
+      (invited) => invited.toString() === user._id.toString()
+    );
+
+    if (isInvited) {
+      // Auto-join the room for invited users, subject to capacity
+      const result = await roomMembership.addParticipant(roomId, user._id);
+
+      if (result.status === "full") {
+        res.status(400).json({
+          success: false,
+          message: "Room is at maximum capacity",
+        });
+        return false;
+      }
+
+      console.log(
+        `Auto-joined user ${user._id} to room ${roomId} for reaction`
+      );
+    } else {
+      res.status(403).json({
+        success: false,
+        message: "You must join the room to send reactions",
+      });
+      return false;
+    }
+  }
+
+  return true;
+};
 
 // Create a reaction
 export const createReaction = async (
@@ -23,36 +77,8 @@ export const createReaction = async (
       return;
     }
 
-    // Check if user is a participant or creator
-    const isParticipant = room.participants.some(
-      (participantId) => participantId.toString() === user._id.toString()
-    );
-
-    const isCreator = room.creator.toString() === user._id.toString();
-
-    if (!isParticipant && !isCreator) {
-      // If not a participant yet, try to auto-join if user is invited
-      const isInvited = room.invitedUsers.some(
-        (invited) => invited.toString() === user._id.toString()
-      );
-
-      if (isInvited) {
-        // Auto-join the room for invited users
-        await Room.findByIdAndUpdate(roomId, {
-          $push: { participants: user._id },
-          $pull: { invitedUsers: user._id },
-        });
-
-        console.log(
-          `Auto-joined user ${user._id} to room ${roomId} for reaction`
-        );
-      } else {
-        res.status(403).json({
-          success: false,
-          message: "You must join the room to send reactions",
-        });
-        return;
-      }
+    if (!(await ensureParticipant(room, user, res))) {
+      return;
     }
 
     // Check if room is live
@@ -79,6 +105,9 @@ export const createReaction = async (
       "username"
     );
 
+    // Show the reaction live to everyone in the room
+    reactionService.broadcastRoomReaction(roomId, emoji, user.username);
+
     res.status(201).json({
       success: true,
       reaction: populatedReaction,
@@ -130,8 +159,9 @@ export const getRoomReactions = async (
       return;
     }
 
-    // Get recent reactions (last 100)
-    const reactions = await Reaction.find({ room: roomId })
+    // Get recent reactions (last 100). Reactions on messages come back with
+    // the message history instead
+    const reactions = await Reaction.find({ room: roomId, message: null })
       .populate("user", "username")
       .sort({ createdAt: -1 })
       .limit(100);
@@ -149,3 +179,73 @@ export const getRoomReactions = async (
     });
   }
 };
+
+// Toggle a reaction on a message: reacting again with the same emoji removes it
+export const toggleMessageReaction = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId, messageId } = req.params;
+    const { emoji } = req.body;
+    const user = req.user as IUser;
+
+    if (typeof emoji !== "string" || !emoji.trim() || emoji.length > 16) {
+      res.status(400).json({
+        success: false,
+        message: "A single emoji is required",
+      });
+      return;
+    }
+
+    const [room, message] = await Promise.all([
+      Room.findById(roomId),
+      Message.findOne({ _id: messageId, room: roomId }).select("deletedAt"),
+    ]);
+
+    if (!room || !message || message.deletedAt) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    if (room.status !== RoomStatus.LIVE) {
+      res.status(400).json({
+        success: false,
+        message: "Cannot send reactions to a room that is not live",
+      });
+      return;
+    }
+
+    if (!(await ensureParticipant(room, user, res))) {
+      return;
+    }
+
+    const result = await reactionService.toggleMessageReaction(
+      room._id,
+      message._id,
+      user._id,
+      emoji.trim()
+    );
+
+    io.to(roomId).emit("message_reactions_updated", {
+      roomId,
+      messageId,
+      reactions: result.counts,
+    });
+
+    res.status(200).json({
+      success: true,
+      action: result.action,
+      reactions: result.counts,
+    });
+  } catch (error) {
+    console.error("Toggle message reaction error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update reaction",
+    });
+  }
+};
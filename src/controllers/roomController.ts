@@ -1,121 +1,929 @@
 import { Request, Response } from "express";
-import Room, { IRoom, RoomType } from "../models/Room";
+import Room, { IRoom, RoomStatus, RoomType } from "../models/Room";
+import RoomSeries from "../models/RoomSeries";
 import User, { IUser } from "../models/User";
 import mongoose from "mongoose";
 import { io } from "../index"; // Import socket.io instance
+import roomLifecycle from "../services/roomLifecycle";
+import roomMembership from "../services/roomMembership";
+import readMarkerService from "../services/readMarkers";
+import { listRoomPresence } from "../socket/presence";
 
-// Generate a random room code
-const generateRoomCode = (): string => {
-  const characters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let code = "";
-  for (let i = 0; i < 6; i++) {
-    code += characters.charAt(Math.floor(Math.random() * characters.length));
+// Room codes are shared verbally, so accept them in any case
+const normalizeRoomCode = (code: string): string => code.trim().toUpperCase();
+
+// Resolve a share code to its room. Sends the error response and returns null
+// when the code is unknown or revoked (404) or the room has already closed (410)
+const findRoomByCode = async (
+  code: string,
+  res: Response
+): Promise<IRoom | null> => {
+  const room = await Room.findOne({
+    code: normalizeRoomCode(code),
+    codeEnabled: { $ne: false },
+  });
+
+  if (!room) {
+    res.status(404).json({
+      success: false,
+      reason: "invalid_code",
+      message: "Invalid room code",
+    });
+    return null;
+  }
+
+  if (
+    room.status === RoomStatus.CLOSED ||
+    room.status === RoomStatus.CANCELLED
+  ) {
+    res.status(410).json({
+      success: false,
+      reason: "room_closed",
+      message:
+        room.status === RoomStatus.CANCELLED
+          ? "This room has been cancelled"
+          : "This room has already closed",
+    });
+    return null;
+  }
+
+  return room;
+};
+
+// Add a user to a room after the private-room, capacity and duplicate checks
+const addUserToRoom = async (
+  room: IRoom,
+  user: IUser,
+  res: Response
+): Promise<void> => {
+  if (
+    room.status === RoomStatus.CLOSED ||
+    room.status === RoomStatus.CANCELLED
+  ) {
+    res.status(400).json({
+      success: false,
+      message:
+        room.status === RoomStatus.CANCELLED
+          ? "This room has been cancelled"
+          : "This room has already closed",
+    });
+    return;
+  }
+
+  // Check if room is private
+  if (room.roomType === RoomType.PRIVATE) {
+    const isInvited = room.invitedUsers.some(
+      (invitedId) => invitedId.toString() === user._id.toString()
+    );
+
+    if (!isInvited && room.creator.toString() !== user._id.toString()) {
+      res.status(403).json({
+        success: false,
+        message: "Not invited to this private room",
+      });
+      return;
+    }
+  }
+
+  // Capacity and duplicate checks happen atomically with the write
+  const result = await roomMembership.addParticipant(room._id, user._id);
+
+  if (result.status === "not_found") {
+    res.status(404).json({
+      success: false,
+      message: "Room not found",
+    });
+    return;
+  }
+
+  if (result.status === "full") {
+    res.status(400).json({
+      success: false,
+      message: "Room is at maximum capacity",
+      waitlistAvailable: room.waitlistEnabled,
+    });
+    return;
+  }
+
+  if (result.status === "already_joined") {
+    res.status(400).json({
+      success: false,
+      message: "Already joined this room",
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    message: "Successfully joined room",
+  });
+};
+
+// Create a new room
+export const createRoom = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      title,
+      description,
+      roomType,
+      startTime,
+      endTime,
+      maxParticipants,
+      tags,
+      waitlistEnabled,
+      readReceiptsEnabled,
+    } = req.body;
+    const user = req.user as IUser;
+
+    const room = await roomLifecycle.createRoom({
+      title,
+      description,
+      roomType,
+      startTime,
+      endTime,
+      maxParticipants: maxParticipants || null,
+      creator: user._id,
+      waitlistEnabled: waitlistEnabled === true,
+      readReceiptsEnabled: readReceiptsEnabled !== false,
+      tags: tags || [],
+    });
+
+    res.status(201).json({
+      success: true,
+      room,
+    });
+  } catch (error) {
+    console.error("Create room error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create room",
+    });
+  }
+};
+
+// Get all public rooms (for explore page)
+export const getPublicRooms = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const rooms = await Room.find({
+      roomType: RoomType.PUBLIC,
+      status: { $nin: [RoomStatus.CLOSED, RoomStatus.CANCELLED] }, // Not closed or cancelled rooms
+    })
+      .populate("creator", "username")
+      .sort({ startTime: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: rooms.length,
+      rooms,
+    });
+  } catch (error) {
+    console.error("Get public rooms error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch public rooms",
+    });
+  }
+};
+
+// Get room by ID
+export const getRoomById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const roomId = req.params.id;
+    const user = req.user as IUser;
+
+    const room = await Room.findById(roomId)
+      .populate("creator", "username")
+      .populate("participants", "username")
+      .populate("invitedUsers", "username");
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
+    }
+
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to access this room",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      room,
+    });
+  } catch (error) {
+    console.error("Get room error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch room",
+    });
+  }
+};
+
+// Update a room's details (creator only)
+export const updateRoom = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const roomId = req.params.id;
+    const user = req.user as IUser;
+
+    const room = await Room.findById(roomId);
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
+    }
+
+    if (room.creator.toString() !== user._id.toString()) {
+      res.status(403).json({
+        success: false,
+        message: "Only the room creator can edit this room",
+      });
+      return;
+    }
+
+    if (
+      room.status === RoomStatus.CLOSED ||
+      room.status === RoomStatus.CANCELLED
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot edit a room that is ${room.status}`,
+      });
+      return;
+    }
+
+    const {
+      title,
+      description,
+      tags,
+      startTime,
+      endTime,
+      maxParticipants,
+      waitlistEnabled,
+      readReceiptsEnabled,
+    } = req.body;
+    const updates: Record<string, any> = {};
+
+    if (title !== undefined) {
+      if (typeof title !== "string" || !title.trim()) {
+        res.status(400).json({
+          success: false,
+          message: "Room title cannot be empty",
+        });
+        return;
+      }
+      updates.title = title;
+    }
+
+    if (description !== undefined) {
+      if (typeof description !== "string" || !description.trim()) {
+        res.status(400).json({
+          success: false,
+          message: "Room description cannot be empty",
+        });
+        return;
+      }
+      updates.description = description;
+    }
+
+    if (tags !== undefined) {
+      if (
+        !Array.isArray(tags) ||
+        tags.some((tag: unknown) => typeof tag !== "string")
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "Tags must be an array of strings",
+        });
+        return;
+      }
+      updates.tags = tags;
+    }
+
+    if (waitlistEnabled !== undefined) {
+      if (typeof waitlistEnabled !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "waitlistEnabled must be a boolean",
+        });
+        return;
+      }
+      // Turning the waitlist off also empties it; see below
+      if (waitlistEnabled) {
+        updates.waitlistEnabled = true;
+      }
+    }
+
+    if (readReceiptsEnabled !== undefined) {
+      if (typeof readReceiptsEnabled !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "readReceiptsEnabled must be a boolean",
+        });
+        return;
+      }
+      updates.readReceiptsEnabled = readReceiptsEnabled;
+    }
+
+    // Validate the times against each other, falling back to the current values
+    const newStartTime =
+      startTime !== undefined ? new Date(startTime) : room.startTime;
+    const newEndTime = endTime !== undefined ? new Date(endTime) : room.endTime;
+
+    if (isNaN(newStartTime.getTime()) || isNaN(newEndTime.getTime())) {
+      res.status(400).json({
+        success: false,
+        message: "Start and end times must be valid dates",
+      });
+      return;
+    }
+
+    if (newEndTime <= newStartTime) {
+      res.status(400).json({
+        success: false,
+        message: "End time must be after start time",
+      });
+      return;
+    }
+
+    if (startTime !== undefined) {
+      if (
+        room.status === RoomStatus.LIVE &&
+        newStartTime.getTime() !== room.startTime.getTime()
+      ) {
+        res.status(400).json({
+          success: false,
+          message:
+            "Cannot change the start time of a room that is already live",
+        });
+        return;
+      }
+      updates.startTime = newStartTime;
+    }
+
+    if (endTime !== undefined) {
+      if (newEndTime <= new Date()) {
+        res.status(400).json({
+          success: false,
+          message: "End time must be in the future",
+        });
+        return;
+      }
+      updates.endTime = newEndTime;
+    }
+
+    // Conditions applied atomically with the update
+    const filter: Record<string, any> = {
+      _id: room._id,
+      status: { $in: [RoomStatus.SCHEDULED, RoomStatus.LIVE] },
+    };
+
+    if (maxParticipants !== undefined) {
+      if (maxParticipants === null || maxParticipants === 0) {
+        updates.maxParticipants = null; // No limit
+      } else {
+        const capacity = Number(maxParticipants);
+        if (!Number.isInteger(capacity) || capacity < 1) {
+          res.status(400).json({
+            success: false,
+            message: "Max participants must be a positive integer",
+          });
+          return;
+        }
+
+        // Never drop below the participant count (plus seats held for
+        // promoted waitlist users) at the time of the write
+        filter.$expr = {
+          $lte: [
+            {
+              $add: [
+                { $size: "$participants" },
+                { $size: { $ifNull: ["$seatOffers", []] } },
+              ],
+            },
+            capacity,
+          ],
+        };
+        updates.maxParticipants = capacity;
+      }
+    }
+
+    // An occurrence edited on its own no longer follows series-wide edits
+    if (room.series) {
+      updates.detachedFromSeries = true;
+    }
+
+    const updatedRoom = await Room.findOneAndUpdate(
+      filter,
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+
+    if (!updatedRoom) {
+      res.status(400).json({
+        success: false,
+        message:
+          filter.$expr !== undefined
+            ? "Max participants cannot be lower than the current number of participants"
+            : "Room can no longer be edited",
+      });
+      return;
+    }
+
+    // People left waiting with the waitlist off could never be promoted,
+    // and would keep the room closed to direct joins
+    if (waitlistEnabled === false && updatedRoom.waitlistEnabled) {
+      await roomMembership.disableWaitlist(updatedRoom._id);
+      updatedRoom.waitlistEnabled = false;
+      updatedRoom.waitlist = [];
+      updatedRoom.seatOffers = [];
+    }
+
+    // More seats may have opened up for people on the waitlist
+    if (maxParticipants !== undefined || waitlistEnabled === true) {
+      await roomMembership.promoteFromWaitlist(updatedRoom._id);
+    }
+
+    roomLifecycle.notifyMembers(updatedRoom, "room_updated", {
+      roomId: updatedRoom._id,
+      room: updatedRoom,
+    });
+
+    res.status(200).json({
+      success: true,
+      room: updatedRoom,
+    });
+  } catch (error) {
+    console.error("Update room error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update room",
+    });
+  }
+};
+
+// Cancel a room (creator only). The room is kept for history
+export const cancelRoom = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const roomId = req.params.id;
+    const user = req.user as IUser;
+
+    const room = await Room.findById(roomId);
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
+    }
+
+    if (room.creator.toString() !== user._id.toString()) {
+      res.status(403).json({
+        success: false,
+        message: "Only the room creator can cancel this room",
+      });
+      return;
+    }
+
+    const cancelledRoom = await roomLifecycle.cancelRoom(room._id, user._id);
+
+    if (!cancelledRoom) {
+      res.status(400).json({
+        success: false,
+        message: "Only scheduled or live rooms can be cancelled",
+      });
+      return;
+    }
+
+    // Skip this occurrence for good so the series does not recreate it
+    if (cancelledRoom.series && cancelledRoom.occurrenceStart) {
+      await RoomSeries.updateOne(
+        { _id: cancelledRoom.series },
+        { $addToSet: { exceptions: cancelledRoom.occurrenceStart } }
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Room cancelled",
+      room: cancelledRoom,
+    });
+  } catch (error) {
+    console.error("Cancel room error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to cancel room",
+    });
+  }
+};
+
+// Join a room
+export const joinRoom = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = req.user as IUser;
+
+    const room = await Room.findById(roomId);
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
+    }
+
+    await addUserToRoom(room, user, res);
+  } catch (error) {
+    console.error("Join room error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to join room",
+    });
+  }
+};
+
+// Leave a room
+export const leaveRoom = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = req.user as IUser;
+
+    const room = await Room.findById(roomId);
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
+    }
+
+    // The creator has to hand the room over before leaving it
+    if (room.creator.toString() === user._id.toString()) {
+      res.status(400).json({
+        success: false,
+        message:
+          "The room creator must transfer ownership before leaving the room",
+      });
+      return;
+    }
+
+    const updatedRoom = await roomMembership.leaveRoom(room._id, user._id);
+
+    if (!updatedRoom) {
+      res.status(400).json({
+        success: false,
+        message: "You are not a participant of this room",
+      });
+      return;
+    }
+
+    // Notify other users in the room
+    io.to(roomId).emit("user_left_room", {
+      userId: user._id,
+      username: user.username,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Successfully left room",
+    });
+  } catch (error) {
+    console.error("Leave room error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to leave room",
+    });
+  }
+};
+
+// Get who is currently connected to a room
+export const getRoomPresence = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = req.user as IUser;
+
+    const room = mongoose.Types.ObjectId.isValid(roomId)
+      ? await Room.findById(roomId)
+      : null;
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
+    }
+
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to access this room",
+      });
+      return;
+    }
+
+    const users = await listRoomPresence(io, roomId);
+
+    res.status(200).json({
+      success: true,
+      roomId,
+      users,
+      count: users.length,
+    });
+  } catch (error) {
+    console.error("Get room presence error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch room presence",
+    });
+  }
+};
+
+// Decline an invitation to a room
+export const declineInvitation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = req.user as IUser;
+
+    const room = await roomMembership.declineInvitation(roomId, user._id);
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "No pending invitation for this room",
+      });
+      return;
+    }
+
+    // Let the creator know the invitation was declined
+    io.to(room.creator.toString()).emit("invitation_declined", {
+      roomId: room._id,
+      roomTitle: room.title,
+      userId: user._id,
+      username: user.username,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Invitation declined",
+    });
+  } catch (error) {
+    console.error("Decline invitation error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to decline invitation",
+    });
+  }
+};
+
+// Transfer room ownership to another participant (creator only)
+export const transferOwnership = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const { username } = req.body;
+    const user = req.user as IUser;
+
+    const room = await Room.findById(roomId);
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
+    }
+
+    if (room.creator.toString() !== user._id.toString()) {
+      res.status(403).json({
+        success: false,
+        message: "Only the room creator can transfer ownership",
+      });
+      return;
+    }
+
+    if (
+      room.status === RoomStatus.CLOSED ||
+      room.status === RoomStatus.CANCELLED
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot transfer ownership of a room that is ${room.status}`,
+      });
+      return;
+    }
+
+    const newOwner = await User.findOne({ username });
+
+    if (!newOwner) {
+      res.status(404).json({
+        success: false,
+        message: `User not found: ${username}`,
+      });
+      return;
+    }
+
+    if (newOwner._id.toString() === user._id.toString()) {
+      res.status(400).json({
+        success: false,
+        message: "You already own this room",
+      });
+      return;
+    }
+
+    const updatedRoom = await roomMembership.transferOwnership(
+      room._id,
+      user._id,
+      newOwner._id
+    );
+
+    if (!updatedRoom) {
+      res.status(400).json({
+        success: false,
+        message: "The new owner must be a participant of this room",
+      });
+      return;
+    }
+
+    roomLifecycle.notifyMembers(updatedRoom, "room_owner_changed", {
+      roomId: updatedRoom._id,
+      roomTitle: updatedRoom.title,
+      previousOwner: { id: user._id, username: user.username },
+      newOwner: { id: newOwner._id, username: newOwner.username },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Ownership transferred",
+      room: updatedRoom,
+    });
+  } catch (error) {
+    console.error("Transfer ownership error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to transfer ownership",
+    });
   }
-  return code;
 };
 
-// Create a new room
-export const createRoom = async (
+// Join the waitlist of a full room
+export const joinWaitlist = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const {
-      title,
-      description,
-      roomType,
-      startTime,
-      endTime,
-      maxParticipants,
-      tags,
-    } = req.body;
+    const { roomId } = req.params;
     const user = req.user as IUser;
 
-    // Generate a unique room code
-    let code = generateRoomCode();
-    let codeExists = await Room.findOne({ code });
+    const room = await Room.findById(roomId);
 
-    // Keep generating until we have a unique code
-    while (codeExists) {
-      code = generateRoomCode();
-      codeExists = await Room.findOne({ code });
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "Room not found",
+      });
+      return;
     }
 
-    // Create room
-    const room = new Room({
-      title,
-      description,
-      roomType,
-      startTime,
-      endTime,
-      maxParticipants: maxParticipants || null,
-      creator: user._id,
-      participants: [user._id], // Creator automatically joins
-      invitedUsers: [],
-      tags: tags || [],
-      code,
-    });
+    if (
+      room.status === RoomStatus.CLOSED ||
+      room.status === RoomStatus.CANCELLED
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `Cannot join the waitlist of a room that is ${room.status}`,
+      });
+      return;
+    }
 
-    await room.save();
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not invited to this private room",
+      });
+      return;
+    }
 
-    // Add room to user's created rooms
-    await User.findByIdAndUpdate(user._id, {
-      $push: { createdRooms: room._id, joinedRooms: room._id },
-    });
+    const result = await roomMembership.joinWaitlist(room._id, user._id);
 
-    res.status(201).json({
-      success: true,
-      room,
+    if (result.status === "waitlisted") {
+      res.status(200).json({
+        success: true,
+        message: "Added to the waitlist",
+        position: result.position,
+        waitlistLength: result.room.waitlist.length,
+      });
+      return;
+    }
+
+    const errors = {
+      not_found: { status: 404, message: "Room not found" },
+      disabled: {
+        status: 400,
+        message: "This room does not have a waitlist",
+      },
+      seat_available: {
+        status: 400,
+        message: "This room has free seats, join it directly",
+      },
+      already_joined: { status: 400, message: "Already joined this room" },
+      already_waitlisted: {
+        status: 400,
+        message: "Already on the waitlist for this room",
+      },
+    };
+    const error = errors[result.status];
+
+    res.status(error.status).json({
+      success: false,
+      message: error.message,
     });
   } catch (error) {
-    console.error("Create room error:", error);
+    console.error("Join waitlist error:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to create room",
+      message: "Failed to join waitlist",
     });
   }
 };
 
-// Get all public rooms (for explore page)
-export const getPublicRooms = async (
+// Leave the waitlist, giving up any seat offer
+export const leaveWaitlist = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const rooms = await Room.find({
-      roomType: RoomType.PUBLIC,
-      status: { $ne: "closed" }, // Not closed rooms
-    })
-      .populate("creator", "username")
-      .sort({ startTime: 1 });
+    const { roomId } = req.params;
+    const user = req.user as IUser;
+
+    const removed = await roomMembership.leaveWaitlist(roomId, user._id);
+
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: "Not on the waitlist for this room",
+      });
+      return;
+    }
 
     res.status(200).json({
       success: true,
-      count: rooms.length,
-      rooms,
+      message: "Removed from the waitlist",
     });
   } catch (error) {
-    console.error("Get public rooms error:", error);
+    console.error("Leave waitlist error:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to fetch public rooms",
+      message: "Failed to leave waitlist",
     });
   }
 };
 
-// Get room by ID
-export const getRoomById = async (
+// Get the user's position in a room's waitlist
+export const getWaitlistPosition = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const roomId = req.params.id;
+    const { roomId } = req.params;
     const user = req.user as IUser;
 
-    const room = await Room.findById(roomId)
-      .populate("creator", "username")
-      .populate("participants", "username")
-      .populate("invitedUsers", "username");
+    const room = await Room.findById(roomId).select("waitlist seatOffers");
 
     if (!room) {
       res.status(404).json({
@@ -125,52 +933,99 @@ export const getRoomById = async (
       return;
     }
 
-    // For private rooms, check if user is creator or invited
-    if (room.roomType === RoomType.PRIVATE) {
-      const isCreator = room.creator._id.toString() === user._id.toString();
-      const isInvited = room.invitedUsers.some(
-        (invitedUser) => invitedUser._id.toString() === user._id.toString()
-      );
-      const isParticipant = room.participants.some(
-        (participant) => participant._id.toString() === user._id.toString()
-      );
+    const offer = room.seatOffers.find(
+      (seatOffer) =>
+        seatOffer.user.toString() === user._id.toString() &&
+        seatOffer.expiresAt > new Date()
+    );
+    const position = roomMembership.getWaitlistPosition(room, user._id);
 
-      if (!isCreator && !isInvited && !isParticipant) {
-        res.status(403).json({
-          success: false,
-          message: "Not authorized to access this room",
-        });
-        return;
-      }
+    if (!offer && position === 0) {
+      res.status(404).json({
+        success: false,
+        message: "Not on the waitlist for this room",
+      });
+      return;
     }
 
-    // Store previous status
-    const previousStatus = room.status;
+    res.status(200).json({
+      success: true,
+      position: offer ? 0 : position,
+      waitlistLength: room.waitlist.length,
+      seatOffer: offer ? { expiresAt: offer.expiresAt } : null,
+    });
+  } catch (error) {
+    console.error("Get waitlist position error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch waitlist position",
+    });
+  }
+};
 
-    // Update room status based on current time
-    room.updateStatus();
+// Confirm a seat offered to the user from the waitlist
+export const confirmWaitlistSeat = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = req.user as IUser;
 
-    // If status changed to 'live', emit socket event
-    if (previousStatus !== "live" && room.status === "live") {
-      // Notify all participants and invited users
-      [...room.participants, ...room.invitedUsers].forEach((participant) => {
-        const participantId = participant._id || participant;
-        io.to(participantId.toString()).emit("room_status_changed", {
-          roomId: room._id,
-          roomTitle: room.title,
-          status: room.status,
-        });
+    const room = await Room.findOne({
+      _id: roomId,
+      seatOffers: {
+        $elemMatch: { user: user._id, expiresAt: { $gt: new Date() } },
+      },
+    });
+
+    if (!room) {
+      res.status(404).json({
+        success: false,
+        message: "No seat is being held for you in this room",
+      });
+      return;
+    }
+
+    await addUserToRoom(room, user, res);
+  } catch (error) {
+    console.error("Confirm waitlist seat error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to confirm seat",
+    });
+  }
+};
+
+// Look up a room by its share code
+export const getRoomByCode = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    const room = await findRoomByCode(req.params.code, res);
+    if (!room) {
+      return;
+    }
+
+    if (!roomMembership.canViewRoom(room, user._id)) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to access this room",
       });
+      return;
     }
 
-    await room.save();
+    await room.populate("creator", "username");
 
     res.status(200).json({
       success: true,
       room,
     });
   } catch (error) {
-    console.error("Get room error:", error);
+    console.error("Get room by code error:", error);
     res.status(500).json({
       success: false,
       message: "Failed to fetch room",
@@ -178,8 +1033,34 @@ export const getRoomById = async (
   }
 };
 
-// Join a room
-export const joinRoom = async (req: Request, res: Response): Promise<void> => {
+// Join a room by its share code
+export const joinRoomByCode = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+
+    const room = await findRoomByCode(req.params.code, res);
+    if (!room) {
+      return;
+    }
+
+    await addUserToRoom(room, user, res);
+  } catch (error) {
+    console.error("Join room by code error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to join room",
+    });
+  }
+};
+
+// Replace a room's share code, invalidating the old one
+export const rotateRoomCode = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
   try {
     const { roomId } = req.params;
     const user = req.user as IUser;
@@ -194,67 +1075,68 @@ export const joinRoom = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check if room is private
-    if (room.roomType === RoomType.PRIVATE) {
-      const isInvited = room.invitedUsers.some(
-        (invitedId) => invitedId.toString() === user._id.toString()
-      );
-
-      if (!isInvited && room.creator.toString() !== user._id.toString()) {
-        res.status(403).json({
-          success: false,
-          message: "Not invited to this private room",
-        });
-        return;
-      }
-    }
-
-    // Check if room is at capacity
-    if (
-      room.maxParticipants &&
-      room.participants.length >= room.maxParticipants
-    ) {
-      res.status(400).json({
+    if (room.creator.toString() !== user._id.toString()) {
+      res.status(403).json({
         success: false,
-        message: "Room is at maximum capacity",
+        message: "Only the room creator can change the room code",
       });
       return;
     }
 
-    // Check if user is already a participant
-    const isParticipant = room.participants.some(
-      (participantId) => participantId.toString() === user._id.toString()
-    );
+    const code = await roomLifecycle.generateUniqueRoomCode();
+    await Room.findByIdAndUpdate(roomId, { code, codeEnabled: true });
 
-    if (isParticipant) {
-      res.status(400).json({
+    res.status(200).json({
+      success: true,
+      code,
+    });
+  } catch (error) {
+    console.error("Rotate room code error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to rotate room code",
+    });
+  }
+};
+
+// Disable a room's share code until it is rotated again
+export const revokeRoomCode = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = req.user as IUser;
+
+    const room = await Room.findById(roomId);
+
+    if (!room) {
+      res.status(404).json({
         success: false,
-        message: "Already joined this room",
+        message: "Room not found",
       });
       return;
     }
 
-    // Add user to participants
-    await Room.findByIdAndUpdate(roomId, {
-      $push: { participants: user._id },
-      $pull: { invitedUsers: user._id }, // Remove from invited if they were invited
-    });
+    if (room.creator.toString() !== user._id.toString()) {
+      res.status(403).json({
+        success: false,
+        message: "Only the room creator can change the room code",
+      });
+      return;
+    }
 
-    // Add room to user's joined rooms
-    await User.findByIdAndUpdate(user._id, {
-      $push: { joinedRooms: room._id },
-      $pull: { invitedToRooms: room._id },
-    });
+    await Room.findByIdAndUpdate(roomId, { codeEnabled: false });
 
     res.status(200).json({
       success: true,
-      message: "Successfully joined room",
+      message: "Room code revoked",
     });
   } catch (error) {
-    console.error("Join room error:", error);
+    console.error("Revoke room code error:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to join room",
+      message: "Failed to revoke room code",
     });
   }
 };
@@ -390,25 +1272,10 @@ export const getUserRooms = async (
       return;
     }
 
-    // Update status for all rooms
-    const updateRoom = async (room: IRoom) => {
-      room.updateStatus();
-      await room.save();
-      return room;
-    };
-
-    // Update the status of all rooms
-    const createdRooms = await Promise.all(
-      (populatedUser.createdRooms as unknown as IRoom[]).map(updateRoom)
-    );
-
-    const joinedRooms = await Promise.all(
-      (populatedUser.joinedRooms as unknown as IRoom[]).map(updateRoom)
-    );
-
-    const invitedToRooms = await Promise.all(
-      (populatedUser.invitedToRooms as unknown as IRoom[]).map(updateRoom)
-    );
+    // Room statuses are kept current by the room scheduler
+    const createdRooms = populatedUser.createdRooms as unknown as IRoom[];
+    const joinedRooms = populatedUser.joinedRooms as unknown as IRoom[];
+    const invitedToRooms = populatedUser.invitedToRooms as unknown as IRoom[];
 
     // Helper function to deduplicate rooms by _id
     const deduplicate = (rooms: IRoom[]): IRoom[] => {
@@ -445,13 +1312,24 @@ export const getUserRooms = async (
       invitedToRooms.filter((room) => room.status !== "closed")
     ).sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
 
+    // Unread counts from the user's read markers
+    const unreadCounts = await readMarkerService.getUnreadCounts(
+      user._id,
+      deduplicate(allRooms).map((room) => room._id)
+    );
+    const withUnreadCount = (rooms: IRoom[]) =>
+      rooms.map((room) => ({
+        ...room.toObject(),
+        unreadCount: unreadCounts.get(room._id.toString()) || 0,
+      }));
+
     res.status(200).json({
       success: true,
       rooms: {
-        upcoming,
-        live,
-        past,
-        invites,
+        upcoming: withUnreadCount(upcoming),
+        live: withUnreadCount(live),
+        past: withUnreadCount(past),
+        invites: withUnreadCount(invites),
       },
     });
   } catch (error) {
@@ -474,7 +1352,7 @@ export const getAllRooms = async (
     // Get all public rooms (excluding closed rooms)
     const publicRooms = await Room.find({
       roomType: RoomType.PUBLIC,
-      status: { $ne: "closed" }, // Not closed rooms
+      status: { $nin: [RoomStatus.CLOSED, RoomStatus.CANCELLED] }, // Not closed or cancelled rooms
     })
       .populate("creator", "username")
       .sort({ startTime: 1 });
@@ -483,7 +1361,7 @@ export const getAllRooms = async (
     // Also exclude closed rooms
     const privateRooms = await Room.find({
       roomType: RoomType.PRIVATE,
-      status: { $ne: "closed" }, // Not closed rooms
+      status: { $nin: [RoomStatus.CLOSED, RoomStatus.CANCELLED] }, // Not closed or cancelled rooms
       $or: [
         { creator: user._id },
         { participants: user._id },
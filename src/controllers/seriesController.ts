@@ -0,0 +1,573 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Room, { RoomStatus, RoomType } from "../models/Room";
+import RoomSeries, { IRoomSeries } from "../models/RoomSeries";
+import User, { IUser } from "../models/User";
+import { io } from "../index"; // Import socket.io instance
+import roomSeriesService from "../services/roomSeries";
+import {
+  validateOccurrenceLimit,
+  validateRecurrenceRule,
+} from "../utils/recurrence";
+
+// Look up invitees by username. Sends the error response and returns null when
+// a username is unknown or the creator tries to invite themselves
+const resolveInvitees = async (
+  usernames: any,
+  user: IUser,
+  res: Response
+): Promise<IUser[] | null> => {
+  if (
+    !Array.isArray(usernames) ||
+    usernames.some((username: unknown) => typeof username !== "string")
+  ) {
+    res.status(400).json({
+      success: false,
+      message: "invitedUsernames must be an array of usernames",
+    });
+    return null;
+  }
+
+  if (usernames.includes(user.username)) {
+    res.status(400).json({
+      success: false,
+      message: "You cannot invite yourself to your own series",
+    });
+    return null;
+  }
+
+  const invitees = await User.find({ username: { $in: usernames } });
+
+  if (invitees.length !== new Set(usernames).size) {
+    const foundUsernames = invitees.map((invitee) => invitee.username);
+    const notFoundUsernames = usernames.filter(
+      (username: string) => !foundUsernames.includes(username)
+    );
+
+    res.status(404).json({
+      success: false,
+      message: `User${
+        notFoundUsernames.length > 1 ? "s" : ""
+      } not found: ${notFoundUsernames.join(", ")}`,
+    });
+    return null;
+  }
+
+  return invitees;
+};
+
+// Parse a list of exception dates. Returns null if any entry is not a date
+const parseExceptions = (exceptions: any): Date[] | null => {
+  if (!Array.isArray(exceptions)) {
+    return null;
+  }
+
+  const dates = exceptions.map((exception) => new Date(exception));
+  return dates.some((date) => isNaN(date.getTime())) ? null : dates;
+};
+
+// Upcoming occurrences of a series, for responses
+const getUpcomingRooms = (seriesId: mongoose.Types.ObjectId) =>
+  Room.find({
+    series: seriesId,
+    status: { $in: [RoomStatus.SCHEDULED, RoomStatus.LIVE] },
+  })
+    .select("title startTime endTime status code detachedFromSeries")
+    .sort({ startTime: 1 });
+
+// Load a series the requesting user created. Sends the error response and
+// returns null otherwise
+const findOwnSeries = async (
+  seriesId: string,
+  user: IUser,
+  res: Response
+): Promise<IRoomSeries | null> => {
+  if (!mongoose.Types.ObjectId.isValid(seriesId)) {
+    res.status(404).json({
+      success: false,
+      message: "Series not found",
+    });
+    return null;
+  }
+
+  const series = await RoomSeries.findById(seriesId);
+
+  if (!series) {
+    res.status(404).json({
+      success: false,
+      message: "Series not found",
+    });
+    return null;
+  }
+
+  if (series.creator.toString() !== user._id.toString()) {
+    res.status(403).json({
+      success: false,
+      message: "Only the series creator can change this series",
+    });
+    return null;
+  }
+
+  return series;
+};
+
+// Create a recurring room series. Rooms are created for the occurrences inside
+// the rolling horizon straight away; later ones are added by the scheduler
+export const createSeries = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      title,
+      description,
+      roomType,
+      startTime,
+      endTime,
+      recurrence,
+      exceptions,
+      maxParticipants,
+      waitlistEnabled,
+      tags,
+      invitedUsernames,
+    } = req.body;
+    const user = req.user as IUser;
+
+    if (!title || !description || !startTime || !endTime) {
+      res.status(400).json({
+        success: false,
+        message: "Title, description, start time and end time are required",
+      });
+      return;
+    }
+
+    if (roomType !== undefined && !Object.values(RoomType).includes(roomType)) {
+      res.status(400).json({
+        success: false,
+        message: "Room type must be public or private",
+      });
+      return;
+    }
+
+    // startTime/endTime describe the first occurrence
+    const firstStartTime = new Date(startTime);
+    const firstEndTime = new Date(endTime);
+
+    if (isNaN(firstStartTime.getTime()) || isNaN(firstEndTime.getTime())) {
+      res.status(400).json({
+        success: false,
+        message: "Start and end times must be valid dates",
+      });
+      return;
+    }
+
+    if (firstEndTime <= firstStartTime) {
+      res.status(400).json({
+        success: false,
+        message: "End time must be after start time",
+      });
+      return;
+    }
+
+    const recurrenceError =
+      validateRecurrenceRule(recurrence) ||
+      validateOccurrenceLimit(
+        recurrence,
+        firstStartTime,
+        roomSeriesService.horizonEnd()
+      );
+    if (recurrenceError) {
+      res.status(400).json({
+        success: false,
+        message: recurrenceError,
+      });
+      return;
+    }
+
+    const parsedExceptions =
+      exceptions !== undefined ? parseExceptions(exceptions) : [];
+    if (!parsedExceptions) {
+      res.status(400).json({
+        success: false,
+        message: "Exceptions must be a list of occurrence start times",
+      });
+      return;
+    }
+
+    if (
+      maxParticipants !== undefined &&
+      maxParticipants !== null &&
+      maxParticipants !== 0 &&
+      (!Number.isInteger(Number(maxParticipants)) ||
+        Number(maxParticipants) < 1)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "Max participants must be a positive integer",
+      });
+      return;
+    }
+
+    const invitees =
+      invitedUsernames !== undefined
+        ? await resolveInvitees(invitedUsernames, user, res)
+        : [];
+    if (!invitees) {
+      return;
+    }
+
+    const series = await RoomSeries.create({
+      title,
+      description,
+      roomType,
+      creator: user._id,
+      firstStartTime,
+      durationMinutes: Math.ceil(
+        (firstEndTime.getTime() - firstStartTime.getTime()) / 60000
+      ),
+      recurrence: {
+        frequency: recurrence.frequency,
+        interval: recurrence.interval || 1,
+        byWeekday: recurrence.byWeekday,
+        until: recurrence.until ? new Date(recurrence.until) : null,
+        count: recurrence.count || null,
+      },
+      exceptions: parsedExceptions,
+      maxParticipants: maxParticipants ? Number(maxParticipants) : null,
+      waitlistEnabled: waitlistEnabled === true,
+      invitedUsers: invitees.map((invitee) => invitee._id),
+      tags: tags || [],
+    });
+
+    await roomSeriesService.materialize(series);
+
+    // One invitation for the whole series rather than one per occurrence
+    for (const invitee of invitees) {
+      io.to(invitee._id.toString()).emit("series_invitation", {
+        seriesId: series._id,
+        seriesTitle: series.title,
+        invitedBy: user.username,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      series,
+      rooms: await getUpcomingRooms(series._id),
+    });
+  } catch (error) {
+    console.error("Create series error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create series",
+    });
+  }
+};
+
+// Get a series and its upcoming occurrences
+export const getSeries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const seriesId = req.params.id;
+    const user = req.user as IUser;
+
+    if (!mongoose.Types.ObjectId.isValid(seriesId)) {
+      res.status(404).json({
+        success: false,
+        message: "Series not found",
+      });
+      return;
+    }
+
+    const series = await RoomSeries.findById(seriesId).populate(
+      "creator",
+      "username"
+    );
+
+    if (!series) {
+      res.status(404).json({
+        success: false,
+        message: "Series not found",
+      });
+      return;
+    }
+
+    // Private series are only visible to the creator and invited users
+    const userId = user._id.toString();
+    const creatorId = (
+      (series.creator as any)._id || series.creator
+    ).toString();
+    if (
+      series.roomType === RoomType.PRIVATE &&
+      creatorId !== userId &&
+      !series.invitedUsers.some((invitee) => invitee.toString() === userId)
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "You do not have access to this series",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      series,
+      rooms: await getUpcomingRooms(series._id),
+    });
+  } catch (error) {
+    console.error("Get series error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch series",
+    });
+  }
+};
+
+// Edit a whole series (creator only). Changes apply to upcoming occurrences
+// that have not been edited on their own
+export const updateSeries = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+    const series = await findOwnSeries(req.params.id, user, res);
+
+    if (!series) {
+      return;
+    }
+
+    if (!series.active) {
+      res.status(400).json({
+        success: false,
+        message: "This series has ended",
+      });
+      return;
+    }
+
+    const {
+      title,
+      description,
+      tags,
+      maxParticipants,
+      waitlistEnabled,
+      startTime,
+      endTime,
+      recurrence,
+      exceptions,
+      invitedUsernames,
+    } = req.body;
+    let timingChanged = false;
+
+    if (title !== undefined) {
+      if (typeof title !== "string" || !title.trim()) {
+        res.status(400).json({
+          success: false,
+          message: "Series title cannot be empty",
+        });
+        return;
+      }
+      series.title = title;
+    }
+
+    if (description !== undefined) {
+      if (typeof description !== "string" || !description.trim()) {
+        res.status(400).json({
+          success: false,
+          message: "Series description cannot be empty",
+        });
+        return;
+      }
+      series.description = description;
+    }
+
+    if (tags !== undefined) {
+      if (
+        !Array.isArray(tags) ||
+        tags.some((tag: unknown) => typeof tag !== "string")
+      ) {
+        res.status(400).json({
+          success: false,
+          message: "Tags must be an array of strings",
+        });
+        return;
+      }
+      series.tags = tags;
+    }
+
+    if (waitlistEnabled !== undefined) {
+      if (typeof waitlistEnabled !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "waitlistEnabled must be a boolean",
+        });
+        return;
+      }
+      series.waitlistEnabled = waitlistEnabled;
+    }
+
+    if (maxParticipants !== undefined) {
+      if (maxParticipants === null || maxParticipants === 0) {
+        series.maxParticipants = undefined; // No limit
+      } else {
+        const capacity = Number(maxParticipants);
+        if (!Number.isInteger(capacity) || capacity < 1) {
+          res.status(400).json({
+            success: false,
+            message: "Max participants must be a positive integer",
+          });
+          return;
+        }
+        series.maxParticipants = capacity;
+      }
+    }
+
+    // startTime/endTime move the first occurrence and set the duration
+    if (startTime !== undefined || endTime !== undefined) {
+      const firstStartTime =
+        startTime !== undefined ? new Date(startTime) : series.firstStartTime;
+      const firstEndTime =
+        endTime !== undefined
+          ? new Date(endTime)
+          : new Date(firstStartTime.getTime() + series.durationMinutes * 60000);
+
+      if (isNaN(firstStartTime.getTime()) || isNaN(firstEndTime.getTime())) {
+        res.status(400).json({
+          success: false,
+          message: "Start and end times must be valid dates",
+        });
+        return;
+      }
+
+      if (firstEndTime <= firstStartTime) {
+        res.status(400).json({
+          success: false,
+          message: "End time must be after start time",
+        });
+        return;
+      }
+
+      series.firstStartTime = firstStartTime;
+      series.durationMinutes = Math.ceil(
+        (firstEndTime.getTime() - firstStartTime.getTime()) / 60000
+      );
+      timingChanged = true;
+    }
+
+    if (recurrence !== undefined) {
+      const recurrenceError = validateRecurrenceRule(recurrence);
+      if (recurrenceError) {
+        res.status(400).json({
+          success: false,
+          message: recurrenceError,
+        });
+        return;
+      }
+      series.recurrence = {
+        frequency: recurrence.frequency,
+        interval: recurrence.interval || 1,
+        byWeekday: recurrence.byWeekday,
+        until: recurrence.until ? new Date(recurrence.until) : null,
+        count: recurrence.count || null,
+      };
+      timingChanged = true;
+    }
+
+    if (exceptions !== undefined) {
+      const parsedExceptions = parseExceptions(exceptions);
+      if (!parsedExceptions) {
+        res.status(400).json({
+          success: false,
+          message: "Exceptions must be a list of occurrence start times",
+        });
+        return;
+      }
+      series.exceptions = parsedExceptions;
+      timingChanged = true;
+    }
+
+    if (timingChanged) {
+      const limitError = validateOccurrenceLimit(
+        series.recurrence,
+        series.firstStartTime,
+        roomSeriesService.horizonEnd()
+      );
+      if (limitError) {
+        res.status(400).json({
+          success: false,
+          message: limitError,
+        });
+        return;
+      }
+    }
+
+    let newInvitees: IUser[] = [];
+    if (invitedUsernames !== undefined) {
+      const invitees = await resolveInvitees(invitedUsernames, user, res);
+      if (!invitees) {
+        return;
+      }
+      newInvitees = invitees.filter(
+        (invitee) =>
+          !series.invitedUsers.some(
+            (invitedId) => invitedId.toString() === invitee._id.toString()
+          )
+      );
+      series.invitedUsers.push(...newInvitees.map((invitee) => invitee._id));
+    }
+
+    await series.save();
+
+    const result = await roomSeriesService.applyToOccurrences(series, {
+      timingChanged,
+      newInvitees: newInvitees.map((invitee) => invitee._id),
+    });
+
+    for (const invitee of newInvitees) {
+      io.to(invitee._id.toString()).emit("series_invitation", {
+        seriesId: series._id,
+        seriesTitle: series.title,
+        invitedBy: user.username,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      series,
+      occurrences: result,
+      rooms: await getUpcomingRooms(series._id),
+    });
+  } catch (error) {
+    console.error("Update series error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update series",
+    });
+  }
+};
+
+// End a series (creator only). Upcoming occurrences are cancelled; a room that
+// is already live is left to finish
+export const endSeries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user as IUser;
+    const series = await findOwnSeries(req.params.id, user, res);
+
+    if (!series) {
+      return;
+    }
+
+    const cancelled = await roomSeriesService.endSeries(series, user._id);
+
+    res.status(200).json({
+      success: true,
+      message: "Series ended",
+      cancelledRooms: cancelled,
+    });
+  } catch (error) {
+    console.error("End series error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to end series",
+    });
+  }
+};
@@ -1,37 +1,42 @@
+import { config, assertValidConfig } from "./config/env";
 import express from "express";
 import http from "http";
 import { Server as SocketIOServer } from "socket.io";
 import mongoose from "mongoose";
 import cors from "cors";
-import dotenv from "dotenv";
-import jwt from "jsonwebtoken";
 import morgan from "morgan";
 import compression from "compression";
-import User from "./models/User";
 import logger, { httpLogStream, loggerHelpers } from "./utils/logger";
 import { connectDatabase } from "./config/database";
-import cacheService from "./services/cache";
-
-// Load environment variables
-dotenv.config();
+import roomScheduler from "./services/roomScheduler";
+import { registerSocketHandlers } from "./socket/handlers";
+import { attachRedisAdapter } from "./socket/redisAdapter";
+
+// Refuse to start with missing or unsafe configuration
+try {
+  assertValidConfig();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
 
 // Import routes
 import authRoutes from "./routes/auth";
 import roomRoutes from "./routes/rooms";
+import seriesRoutes from "./routes/series";
 import userRoutes from "./routes/users";
 import aiRoutes from "./routes/ai";
 
 // Create Express app
 const app = express();
-const PORT = process.env.PORT || 5000;
-const NODE_ENV = process.env.NODE_ENV || "development";
-const isProduction = NODE_ENV === "production";
+const PORT = config.port;
+const NODE_ENV = config.nodeEnv;
+const isProduction = config.isProduction;
 
 // Create HTTP server
 const server = http.createServer(app);
 
-// Get CORS origin from environment or use default
-const CORS_ORIGIN = process.env.CORS_ORIGIN || "http://localhost:3000";
+const CORS_ORIGIN = config.cors.origin;
 
 // Initialize Socket.IO
 const io = new SocketIOServer(server, {
@@ -94,6 +99,7 @@ connectDatabase();
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/rooms", roomRoutes);
+app.use("/api/series", seriesRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/ai", aiRoutes);
 
@@ -140,180 +146,47 @@ app.use(
   }
 );
 
-// Socket.IO connection handling with enhanced performance
-io.use(async (socket, next) => {
-  try {
-    const token = socket.handshake.auth.token;
-    if (!token) {
-      return next(new Error("Authentication error"));
-    }
-
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "default_secret"
-    ) as { id: string };
-    const user = await User.findById(decoded.id);
-
-    if (!user) {
-      return next(new Error("User not found"));
-    }
-
-    // Associate socket with user ID for direct messaging
-    socket.join(user._id.toString());
-
-    // Store user data in socket for later use
-    (socket as any).user = {
-      id: user._id,
-      username: user.username,
-    };
-
-    // Track online user in cache
-    await cacheService.setOnlineUser(user._id.toString(), socket.id);
-
-    loggerHelpers.logSocketEvent(
-      "user_connected",
-      socket.id,
-      user._id.toString()
-    );
-
-    next();
-  } catch (error) {
-    loggerHelpers.logError(error as Error, { operation: "socket_auth" });
-    next(new Error("Authentication error"));
-  }
-});
-
-io.on("connection", (socket) => {
-  console.log("User connected:", socket.id);
-
-  // Only log socket handshake in development mode
-  if (!isProduction) {
-    console.log("Socket handshake:", socket.handshake.address);
-  }
+// Socket.IO authentication and event handlers
+registerSocketHandlers(io);
 
-  // Join a room with enhanced tracking
-  socket.on("join_room", async (roomId) => {
+// Start server. When running several instances, Socket.IO events are shared
+// between them through Redis, so the adapter must be up before accepting
+// connections
+const startServer = async (): Promise<void> => {
+  if (config.redis.socketAdapter) {
     try {
-      // Leave all previous rooms
-      socket.rooms.forEach((room) => {
-        if (room !== socket.id) {
-          socket.leave(room);
-        }
-      });
-
-      // Join the new room
-      socket.join(roomId);
-
-      // Track user in room cache
-      await cacheService.addRoomParticipant(roomId, (socket as any).user.id);
-
-      // Notify other users in the room
-      socket.to(roomId).emit("user_joined_room", {
-        userId: (socket as any).user.id,
-        username: (socket as any).user.username,
-        timestamp: new Date().toISOString(),
-      });
-
-      loggerHelpers.logSocketEvent(
-        "user_joined_room",
-        socket.id,
-        (socket as any).user.id,
-        roomId
-      );
-
-      console.log(
-        `User ${(socket as any).user.username} joined room ${roomId}`
-      );
+      await attachRedisAdapter(io);
     } catch (error) {
       loggerHelpers.logError(error as Error, {
-        operation: "join_room",
-        socketId: socket.id,
-        roomId,
+        operation: "socket_redis_adapter",
       });
+      console.error("Failed to connect the Socket.IO Redis adapter:", error);
+      process.exit(1);
     }
-  });
-
-  // Leave a room
-  socket.on("leave_room", async (roomId) => {
-    try {
-      socket.leave(roomId);
-
-      // Remove user from room cache
-      await cacheService.removeRoomParticipant(roomId, (socket as any).user.id);
-
-      // Notify other users in the room
-      socket.to(roomId).emit("user_left_room", {
-        userId: (socket as any).user.id,
-        username: (socket as any).user.username,
-        timestamp: new Date().toISOString(),
-      });
-
-      loggerHelpers.logSocketEvent(
-        "user_left_room",
-        socket.id,
-        (socket as any).user.id,
-        roomId
-      );
-
-      console.log(`User ${(socket as any).user.username} left room ${roomId}`);
-    } catch (error) {
-      loggerHelpers.logError(error as Error, {
-        operation: "leave_room",
-        socketId: socket.id,
-        roomId,
-      });
-    }
-  });
-
-  // Handle disconnection
-  socket.on("disconnect", async () => {
-    try {
-      // Remove user from all rooms
-      const rooms = Array.from(socket.rooms);
-      for (const roomId of rooms) {
-        if (roomId !== socket.id) {
-          await cacheService.removeRoomParticipant(
-            roomId,
-            (socket as any).user?.id
-          );
-          socket.to(roomId).emit("user_left_room", {
-            userId: (socket as any).user?.id,
-            username: (socket as any).user?.username,
-            timestamp: new Date().toISOString(),
-          });
-        }
-      }
-
-      // Remove user from online cache
-      if ((socket as any).user?.id) {
-        await cacheService.removeOnlineUser((socket as any).user.id);
-      }
+  }
 
-      loggerHelpers.logSocketEvent(
-        "user_disconnected",
-        socket.id,
-        (socket as any).user?.id
-      );
+  // Move rooms between scheduled, live and closed in the background. Test
+  // suites import this module for `io` and run scheduler passes themselves
+  if (NODE_ENV !== "test") {
+    roomScheduler.start();
+  }
 
-      console.log("User disconnected:", socket.id);
-    } catch (error) {
-      loggerHelpers.logError(error as Error, {
-        operation: "disconnect",
-        socketId: socket.id,
-      });
-    }
+  server.listen(PORT, () => {
+    logger.info(
+      `🚀 RoomLoop Server running on port ${PORT} in ${NODE_ENV} mode`
+    );
+    console.log(
+      `🚀 RoomLoop Server running on port ${PORT} in ${NODE_ENV} mode`
+    );
   });
-});
+};
 
-// Start server
-server.listen(PORT, () => {
-  logger.info(`🚀 RoomLoop Server running on port ${PORT} in ${NODE_ENV} mode`);
-  console.log(`🚀 RoomLoop Server running on port ${PORT} in ${NODE_ENV} mode`);
-});
+startServer();
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   logger.info("SIGTERM received, shutting down gracefully");
+  roomScheduler.stop();
   server.close(() => {
     logger.info("Process terminated");
     process.exit(0);
@@ -322,6 +195,7 @@ process.on("SIGTERM", () => {
 
 process.on("SIGINT", () => {
   logger.info("SIGINT received, shutting down gracefully");
+  roomScheduler.stop();
   server.close(() => {
     logger.info("Process terminated");
     process.exit(0);
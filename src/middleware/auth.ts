@@ -1,12 +1,15 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import User, { IUser } from "../models/User";
+import sessionService from "../services/sessions";
+import twoFactorService, { TwoFactorChallenge } from "../services/twoFactor";
 
 // Add user property to Express Request interface
 declare global {
   namespace Express {
     interface Request {
       user?: IUser;
+      sessionId?: string; // Session of the access token used
+      twoFactorChallenge?: TwoFactorChallenge; // Login awaiting its second step
     }
   }
 }
@@ -35,30 +38,34 @@ export const protect = async (
       return;
     }
 
-    try {
-      // Verify token
-      const JWT_SECRET = process.env.JWT_SECRET || "roomloop_secret_key";
-      const decoded = jwt.verify(token, JWT_SECRET) as { id: string };
+    // Verify token and that its session has not been revoked
+    const verified = await sessionService.verifyAccessToken(token);
 
-      // Get user from token
-      const user = await User.findById(decoded.id).select("-password");
+    if (!verified.ok) {
+      res.status(401).json({
+        success: false,
+        message:
+          verified.reason === "revoked"
+            ? "Not authorized, session has ended"
+            : "Not authorized, invalid token",
+      });
+      return;
+    }
 
-      if (!user) {
-        res.status(401).json({
-          success: false,
-          message: "User not found",
-        });
-        return;
-      }
+    // Get user from token
+    const user = await User.findById(verified.userId).select("-password");
 
-      req.user = user;
-      next();
-    } catch (error) {
+    if (!user) {
       res.status(401).json({
         success: false,
-        message: "Not authorized, invalid token",
+        message: "User not found",
       });
+      return;
     }
+
+    req.user = user;
+    req.sessionId = verified.sessionId;
+    next();
   } catch (error) {
     console.error("Auth middleware error:", error);
     res.status(500).json({
@@ -67,3 +74,44 @@ export const protect = async (
     });
   }
 };
+
+// Policy for actions that reach other people, such as creating rooms or
+// sending invitations. Unverified accounts can still browse and join public
+// rooms. Use after protect
+export const requireVerifiedEmail = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user?.isEmailVerified()) {
+    res.status(403).json({
+      success: false,
+      reason: "email_unverified",
+      message: "Please verify your email address first",
+    });
+    return;
+  }
+
+  next();
+};
+
+// Load the challenge token from the first login step. Comes before
+// checkAccountLockout, which locks failed codes under the same login
+export const requireTwoFactorChallenge = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const challenge = twoFactorService.verifyChallenge(req.body.challengeToken);
+
+  if (!challenge) {
+    res.status(401).json({
+      success: false,
+      message: "Invalid or expired login challenge, please log in again",
+    });
+    return;
+  }
+
+  req.twoFactorChallenge = challenge;
+  next();
+};
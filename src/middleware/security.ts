@@ -1,6 +1,7 @@
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import { Request, Response, NextFunction } from "express";
+import { config } from "../config/env";
 
 // Security headers middleware
 export const securityHeaders = helmet({
@@ -11,10 +12,7 @@ export const securityHeaders = helmet({
       fontSrc: ["'self'", "https://fonts.gstatic.com"],
       imgSrc: ["'self'", "data:", "https:"],
       scriptSrc: ["'self'"],
-      connectSrc: [
-        "'self'",
-        process.env.CORS_ORIGIN || "http://localhost:3000",
-      ],
+      connectSrc: ["'self'", config.cors.origin],
       frameSrc: ["'none'"],
       objectSrc: ["'none'"],
       upgradeInsecureRequests: [],
@@ -52,6 +50,18 @@ export const authLimiter = rateLimit({
   skipSuccessfulRequests: true, // Don't count successful requests
 });
 
+// Counts every request, not only failures, since each one can send mail
+export const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // Limit each IP to 10 reset requests per hour
+  message: {
+    success: false,
+    message: "Too many password reset requests, please try again later",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 export const roomCreationLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 10, // Limit each IP to 10 room creations per hour
@@ -104,7 +114,8 @@ export const checkAccountLockout = (
   res: Response,
   next: NextFunction
 ) => {
-  const identifier = req.body.login?.toLowerCase() || req.ip;
+  const identifier =
+    req.twoFactorChallenge?.login || req.body.login?.toLowerCase() || req.ip;
   const attempt = loginAttempts.get(identifier);
 
   if (attempt && attempt.lockedUntil && new Date() < attempt.lockedUntil) {
@@ -142,6 +153,16 @@ export const recordLoginAttempt = (identifier: string, success: boolean) => {
   }
 };
 
+// Basic XSS prevention. Also applied to socket payloads, which do not pass
+// through sanitizeInput
+export const sanitizeString = (value: string): string =>
+  value
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#x27;")
+    .replace(/\//g, "&#x2F;");
+
 // Sanitize user input to prevent XSS
 export const sanitizeInput = (
   req: Request,
@@ -150,13 +171,7 @@ export const sanitizeInput = (
 ) => {
   const sanitizeValue = (value: any): any => {
     if (typeof value === "string") {
-      // Basic XSS prevention
-      return value
-        .replace(/</g, "&lt;")
-        .replace(/>/g, "&gt;")
-        .replace(/"/g, "&quot;")
-        .replace(/'/g, "&#x27;")
-        .replace(/\//g, "&#x2F;");
+      return sanitizeString(value);
     }
     if (Array.isArray(value)) {
       return value.map(sanitizeValue);
@@ -191,7 +206,7 @@ export const corsOptions = {
     callback: (err: Error | null, allow?: boolean) => void
   ) {
     const allowedOrigins = [
-      process.env.CORS_ORIGIN || "http://localhost:3000",
+      config.cors.origin,
       "http://localhost:3000",
       "https://roomloop-client.vercel.app",
     ];
@@ -204,6 +219,6 @@ export const corsOptions = {
     }
   },
   credentials: true,
-  methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+  methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
   allowedHeaders: ["Content-Type", "Authorization"],
 };
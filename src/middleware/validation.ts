@@ -1,5 +1,6 @@
 import { body, param, query, validationResult } from "express-validator";
 import { Request, Response, NextFunction } from "express";
+import { isValidCursor } from "../utils/cursor";
 
 // Middleware to handle validation errors
 export const handleValidationErrors = (
@@ -19,6 +20,16 @@ export const handleValidationErrors = (
   next();
 };
 
+// Password strength rules, shared by registration and password changes
+const strongPassword = (field: string) =>
+  body(field)
+    .isLength({ min: 8, max: 128 })
+    .withMessage("Password must be between 8 and 128 characters")
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
+    .withMessage(
+      "Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character"
+    );
+
 // Authentication validation rules
 export const validateRegister = [
   body("username")
@@ -39,13 +50,7 @@ export const validateRegister = [
     .isLength({ max: 255 })
     .withMessage("Email must not exceed 255 characters"),
 
-  body("password")
-    .isLength({ min: 8, max: 128 })
-    .withMessage("Password must be between 8 and 128 characters")
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
-    .withMessage(
-      "Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character"
-    ),
+  strongPassword("password"),
 
   handleValidationErrors,
 ];
@@ -68,6 +73,45 @@ export const validateLogin = [
   handleValidationErrors,
 ];
 
+export const validateForgotPassword = [
+  body("email")
+    .trim()
+    .isEmail()
+    .withMessage("Please provide a valid email address")
+    .isLength({ max: 255 })
+    .withMessage("Email must not exceed 255 characters"),
+
+  handleValidationErrors,
+];
+
+export const validateResetPassword = [
+  body("token").isString().notEmpty().withMessage("Reset token is required"),
+
+  strongPassword("password"),
+
+  handleValidationErrors,
+];
+
+export const validateChangePassword = [
+  body("currentPassword")
+    .isString()
+    .notEmpty()
+    .withMessage("Current password is required"),
+
+  strongPassword("newPassword"),
+
+  handleValidationErrors,
+];
+
+export const validateVerifyEmail = [
+  body("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Verification token is required"),
+
+  handleValidationErrors,
+];
+
 // Room validation rules
 export const validateCreateRoom = [
   body("title")
@@ -185,15 +229,55 @@ export const validateSendMessage = [
 export const validateGetMessages = [
   param("roomId").isMongoId().withMessage("Invalid room ID format"),
 
-  query("page")
+  query("before")
     .optional()
-    .isInt({ min: 1 })
-    .withMessage("Page must be a positive integer"),
+    .custom((value) => typeof value === "string" && isValidCursor(value))
+    .withMessage("Invalid before cursor"),
+
+  query("after")
+    .optional()
+    .custom((value) => typeof value === "string" && isValidCursor(value))
+    .withMessage("Invalid after cursor"),
+
+  query("after")
+    .custom((value, { req }) => value === undefined || !req.query?.before)
+    .withMessage("Use either before or after, not both"),
+
+  query("includeReplies")
+    .optional()
+    .isIn(["true", "false"])
+    .withMessage("includeReplies must be true or false"),
 
   query("limit")
     .optional()
     .isInt({ min: 1, max: 100 })
-    .withMessage("Limit must be between 1 and 100"),
+    .withMessage("Limit must be between 1 and 100")
+    .toInt(),
+
+  handleValidationErrors,
+];
+
+export const validateGetReplies = [
+  param("messageId").isMongoId().withMessage("Invalid message ID format"),
+  ...validateGetMessages,
+];
+
+export const validateEditMessage = [
+  param("roomId").isMongoId().withMessage("Invalid room ID format"),
+  param("messageId").isMongoId().withMessage("Invalid message ID format"),
+
+  body("content")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage("Message content must be between 1 and 2000 characters"),
+
+  handleValidationErrors,
+];
+
+export const validateMessageId = [
+  param("roomId").isMongoId().withMessage("Invalid room ID format"),
+  param("messageId").isMongoId().withMessage("Invalid message ID format"),
 
   handleValidationErrors,
 ];
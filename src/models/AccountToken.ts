@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export enum AccountTokenPurpose {
+  PASSWORD_RESET = "password_reset",
+  EMAIL_VERIFICATION = "email_verification",
+}
+
+export interface IAccountToken extends Document {
+  user: mongoose.Types.ObjectId;
+  purpose: AccountTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountTokenSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: Object.values(AccountTokenPurpose),
+      required: true,
+    },
+    // SHA-256 of the token sent to the user; the token itself is never stored
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    // Set when the token is redeemed, so it only works once
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Database indexes for improved query performance
+AccountTokenSchema.index({ tokenHash: 1 }, { unique: true }); // For redeeming a token
+AccountTokenSchema.index({ user: 1, purpose: 1, usedAt: 1 }); // For replacing a user's outstanding tokens
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Drop tokens once they expire
+
+export default mongoose.model<IAccountToken>(
+  "AccountToken",
+  AccountTokenSchema
+);
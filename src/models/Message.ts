@@ -1,9 +1,28 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+export interface IMessageEdit {
+  content: string; // Content before the edit
+  editedAt: Date;
+}
+
+export interface IMessageMention {
+  user: mongoose.Types.ObjectId;
+  readAt?: Date;
+}
+
 export interface IMessage extends Document {
   content: string;
   sender: mongoose.Types.ObjectId;
   room: mongoose.Types.ObjectId;
+  parentMessage?: mongoose.Types.ObjectId;
+  replyCount: number;
+  lastReplyAt?: Date;
+  mentions: IMessageMention[];
+  clientMessageId?: string;
+  editedAt?: Date;
+  editHistory: IMessageEdit[];
+  deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
 }
 
@@ -23,6 +42,57 @@ const MessageSchema: Schema = new Schema(
       ref: "Room",
       required: true,
     },
+    // Set on replies; threads are one level deep
+    parentMessage: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    // Maintained on thread parents
+    replyCount: {
+      type: Number,
+      default: 0,
+    },
+    lastReplyAt: {
+      type: Date,
+      default: null,
+    },
+    // Users mentioned in the content, with when they saw the mention
+    mentions: [
+      {
+        _id: false,
+        user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        readAt: { type: Date, default: null },
+      },
+    ],
+    // Client-generated id, unique per sender in a room, so a retried send is
+    // saved once
+    clientMessageId: {
+      type: String,
+      default: null,
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    // Previous versions, oldest first
+    editHistory: [
+      {
+        _id: false,
+        content: { type: String, required: true },
+        editedAt: { type: Date, required: true },
+      },
+    ],
+    // Deleted messages are kept as tombstones with their content cleared
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -30,9 +100,18 @@ const MessageSchema: Schema = new Schema(
 );
 
 // Database indexes for improved query performance
-MessageSchema.index({ room: 1, createdAt: -1 }); // For fetching room messages sorted by time
+MessageSchema.index({ room: 1, createdAt: -1, _id: -1 }); // For paging room messages in cursor order
 MessageSchema.index({ sender: 1, createdAt: -1 }); // For fetching user's messages
 MessageSchema.index({ room: 1, sender: 1 }); // For filtering messages by room and sender
 MessageSchema.index({ createdAt: -1 }); // For sorting by creation date
+MessageSchema.index({ parentMessage: 1, createdAt: -1, _id: -1 }); // For paging thread replies in cursor order
+MessageSchema.index({ "mentions.user": 1, createdAt: -1 }); // For fetching user's mentions
+MessageSchema.index(
+  { room: 1, sender: 1, clientMessageId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { clientMessageId: { $type: "string" } },
+  }
+); // For idempotent retries
 
 export default mongoose.model<IMessage>("Message", MessageSchema);
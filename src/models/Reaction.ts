@@ -4,6 +4,7 @@ export interface IReaction extends Document {
   emoji: string;
   user: mongoose.Types.ObjectId;
   room: mongoose.Types.ObjectId;
+  message?: mongoose.Types.ObjectId;
   createdAt: Date;
 }
 
@@ -23,6 +24,12 @@ const ReactionSchema: Schema = new Schema(
       ref: "Room",
       required: true,
     },
+    // Set for reactions on a message; room-wide reactions are bursts without one
+    message: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -32,7 +39,13 @@ const ReactionSchema: Schema = new Schema(
 // Database indexes for improved query performance
 ReactionSchema.index({ room: 1, createdAt: -1 }); // For fetching room reactions sorted by time
 ReactionSchema.index({ user: 1, createdAt: -1 }); // For fetching user's reactions
-ReactionSchema.index({ room: 1, user: 1, emoji: 1 }); // For preventing duplicate reactions
+// For preventing duplicate reactions: one per user and emoji on a message.
+// Room-wide bursts can repeat, so they are left out of the constraint
+ReactionSchema.index(
+  { room: 1, message: 1, user: 1, emoji: 1 },
+  { unique: true, partialFilterExpression: { message: { $type: "objectId" } } }
+);
+ReactionSchema.index({ message: 1, emoji: 1 }); // For counting reactions per message
 ReactionSchema.index({ room: 1, emoji: 1 }); // For grouping reactions by emoji in rooms
 
 export default mongoose.model<IReaction>("Reaction", ReactionSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IReadMarker extends Document {
+  user: mongoose.Types.ObjectId;
+  room: mongoose.Types.ObjectId;
+  lastReadMessage: mongoose.Types.ObjectId;
+  lastReadAt: Date; // createdAt of lastReadMessage
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReadMarkerSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    room: {
+      type: Schema.Types.ObjectId,
+      ref: "Room",
+      required: true,
+    },
+    // Last message the user has seen in the room
+    lastReadMessage: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      required: true,
+    },
+    lastReadAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Database indexes for improved query performance
+ReadMarkerSchema.index({ user: 1, room: 1 }, { unique: true }); // One marker per user and room
+
+export default mongoose.model<IReadMarker>("ReadMarker", ReadMarkerSchema);
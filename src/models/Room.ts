@@ -4,6 +4,7 @@ export enum RoomStatus {
   SCHEDULED = "scheduled",
   LIVE = "live",
   CLOSED = "closed",
+  CANCELLED = "cancelled",
 }
 
 export enum RoomType {
@@ -11,6 +12,16 @@ export enum RoomType {
   PRIVATE = "private",
 }
 
+export interface IWaitlistEntry {
+  user: mongoose.Types.ObjectId;
+  joinedAt: Date;
+}
+
+export interface ISeatOffer {
+  user: mongoose.Types.ObjectId;
+  expiresAt: Date;
+}
+
 export interface IRoom extends Document {
   title: string;
   description: string;
@@ -22,8 +33,18 @@ export interface IRoom extends Document {
   maxParticipants?: number;
   participants: mongoose.Types.ObjectId[];
   invitedUsers: mongoose.Types.ObjectId[];
+  waitlistEnabled: boolean;
+  waitlist: IWaitlistEntry[];
+  seatOffers: ISeatOffer[];
   tags: string[];
   code: string;
+  codeEnabled: boolean;
+  cancelledAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  series?: mongoose.Types.ObjectId;
+  occurrenceStart?: Date;
+  detachedFromSeries: boolean;
+  readReceiptsEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
   updateStatus(): void;
@@ -79,6 +100,40 @@ const RoomSchema: Schema = new Schema(
         ref: "User",
       },
     ],
+    waitlistEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    // Users waiting for a seat, in FIFO order
+    waitlist: [
+      {
+        _id: false,
+        user: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        joinedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    // Seats held for promoted waitlist users until they confirm
+    seatOffers: [
+      {
+        _id: false,
+        user: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        expiresAt: {
+          type: Date,
+          required: true,
+        },
+      },
+    ],
     tags: [
       {
         type: String,
@@ -90,6 +145,40 @@ const RoomSchema: Schema = new Schema(
       required: true,
       unique: true,
     },
+    codeEnabled: {
+      type: Boolean,
+      default: true,
+    },
+    cancelledAt: {
+      type: Date,
+      default: null,
+    },
+    cancelledBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    // Recurring series this room is an occurrence of
+    series: {
+      type: Schema.Types.ObjectId,
+      ref: "RoomSeries",
+      default: null,
+    },
+    // Start time the series rule produced for this occurrence
+    occurrenceStart: {
+      type: Date,
+      default: null,
+    },
+    // Set once an occurrence is edited on its own, so series edits skip it
+    detachedFromSeries: {
+      type: Boolean,
+      default: false,
+    },
+    // The creator can turn off read_receipt broadcasts for the room
+    readReceiptsEnabled: {
+      type: Boolean,
+      default: true,
+    },
   },
   {
     timestamps: true,
@@ -109,9 +198,12 @@ RoomSchema.methods.updateStatus = function (): void {
   }
 };
 
-// Middleware to update status before saving
+// Set the initial status of new rooms. Later transitions are made by the
+// room scheduler so that each one is announced exactly once
 RoomSchema.pre<IRoom>("save", function (next) {
-  this.updateStatus();
+  if (this.isNew) {
+    this.updateStatus();
+  }
   next();
 });
 
@@ -127,6 +219,12 @@ RoomSchema.index({ roomType: 1, startTime: 1 }); // Compound index for type + ti
 RoomSchema.index({ code: 1 }, { unique: true }); // Unique index for room codes
 RoomSchema.index({ title: "text", description: "text", tags: "text" }); // Text search index
 RoomSchema.index({ createdAt: 1 }); // For sorting by creation date
+RoomSchema.index(
+  { series: 1, occurrenceStart: 1 },
+  { unique: true, partialFilterExpression: { series: { $type: "objectId" } } }
+); // One room per series occurrence
+RoomSchema.index({ "waitlist.user": 1 }); // For finding a user's waitlist entries
+RoomSchema.index({ "seatOffers.expiresAt": 1 }); // For expiring unconfirmed seat offers
 RoomSchema.index({
   creator: 1,
   roomType: 1,
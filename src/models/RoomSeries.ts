@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { RoomType } from "./Room";
+import { RecurrenceFrequency, RecurrenceRule } from "../utils/recurrence";
+
+export interface IRoomSeries extends Document {
+  title: string;
+  description: string;
+  roomType: RoomType;
+  creator: mongoose.Types.ObjectId;
+  firstStartTime: Date;
+  durationMinutes: number;
+  recurrence: RecurrenceRule;
+  exceptions: Date[];
+  maxParticipants?: number;
+  waitlistEnabled: boolean;
+  invitedUsers: mongoose.Types.ObjectId[];
+  tags: string[];
+  active: boolean;
+  generatedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoomSeriesSchema: Schema = new Schema(
+  {
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    roomType: {
+      type: String,
+      enum: Object.values(RoomType),
+      default: RoomType.PUBLIC,
+    },
+    creator: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    // Start of the first occurrence; later ones keep its UTC time of day
+    firstStartTime: {
+      type: Date,
+      required: true,
+    },
+    durationMinutes: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    recurrence: {
+      frequency: {
+        type: String,
+        enum: Object.values(RecurrenceFrequency),
+        required: true,
+      },
+      interval: {
+        type: Number,
+        default: 1,
+        min: 1,
+      },
+      byWeekday: [
+        {
+          type: Number,
+          min: 0,
+          max: 6,
+        },
+      ],
+      until: {
+        type: Date,
+        default: null,
+      },
+      count: {
+        type: Number,
+        default: null,
+      },
+    },
+    // Occurrence start times that are skipped
+    exceptions: [
+      {
+        type: Date,
+      },
+    ],
+    maxParticipants: {
+      type: Number,
+      default: null,
+    },
+    waitlistEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    invitedUsers: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    tags: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    // Rooms have been created for every occurrence up to this time
+    generatedUntil: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Database indexes for improved query performance
+RoomSeriesSchema.index({ creator: 1 }); // For fetching user's series
+RoomSeriesSchema.index({ active: 1, generatedUntil: 1 }); // For extending the rolling horizon
+
+export default mongoose.model<IRoomSeries>("RoomSeries", RoomSeriesSchema);
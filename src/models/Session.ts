@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    // SHA-256 of the current refresh token's secret; the token itself is
+    // never stored
+    refreshTokenHash: {
+      type: String,
+      required: true,
+    },
+    // The token it replaced, to recognise a rotated token being replayed
+    previousRefreshTokenHash: {
+      type: String,
+      default: null,
+    },
+    // When the refresh token stops working
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    userAgent: {
+      type: String,
+      default: null,
+    },
+    ip: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Database indexes for improved query performance
+SessionSchema.index({ user: 1, revokedAt: 1 }); // For revoking a user's sessions
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Drop sessions once they expire
+
+export default mongoose.model<ISession>("Session", SessionSchema);
@@ -5,12 +5,20 @@ export interface IUser extends Document {
   username: string;
   email: string;
   password: string;
+  emailVerified?: boolean;
+  emailVerificationSentAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep?: number;
   createdRooms: mongoose.Types.ObjectId[];
   joinedRooms: mongoose.Types.ObjectId[];
   invitedToRooms: mongoose.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  isEmailVerified(): boolean;
 }
 
 const UserSchema: Schema = new Schema(
@@ -33,6 +41,46 @@ const UserSchema: Schema = new Schema(
       required: true,
       minlength: 6,
     },
+    // False from registration until the user follows the link mailed to
+    // their address. Deliberately has no default: accounts from before
+    // verification existed have no value and count as verified
+    emailVerified: {
+      type: Boolean,
+    },
+    // When the last verification mail went out, for throttling resends
+    emailVerificationSentAt: {
+      type: Date,
+      default: null,
+    },
+    // TOTP two-factor authentication. The secrets and recovery codes are
+    // left out of queries unless selected explicitly
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    // Secret handed out by setup, until a code from it is confirmed
+    twoFactorPendingSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    // SHA-256 of each unused recovery code
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    // Time step of the last accepted code, so a code cannot be used twice
+    twoFactorLastUsedStep: {
+      type: Number,
+      default: null,
+      select: false,
+    },
     createdRooms: [
       {
         type: Schema.Types.ObjectId,
@@ -77,6 +125,11 @@ UserSchema.methods.comparePassword = async function (
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Unset means the account predates email verification
+UserSchema.methods.isEmailVerified = function (): boolean {
+  return this.emailVerified !== false;
+};
+
 // Database indexes for improved query performance
 UserSchema.index({ email: 1 }, { unique: true }); // Unique index for email
 UserSchema.index({ username: 1 }, { unique: true }); // Unique index for username
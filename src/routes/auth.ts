@@ -1,9 +1,35 @@
 import express from "express";
-import { register, login, getCurrentUser } from "../controllers/authController";
-import { protect } from "../middleware/auth";
-import { authLimiter, checkAccountLockout } from "../middleware/security";
+import {
+  register,
+  login,
+  getCurrentUser,
+  refresh,
+  logout,
+  logoutAll,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  verifyEmail,
+  resendVerificationEmail,
+  verifyTwoFactor,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+} from "../controllers/authController";
+import { protect, requireTwoFactorChallenge } from "../middleware/auth";
+import {
+  authLimiter,
+  checkAccountLockout,
+  passwordResetLimiter,
+} from "../middleware/security";
 // Import validation once express-validator types are resolved
 // import { validateRegister, validateLogin } from "../middleware/validation";
+import {
+  validateForgotPassword,
+  validateResetPassword,
+  validateChangePassword,
+  validateVerifyEmail,
+} from "../middleware/validation";
 
 const router = express.Router();
 
@@ -18,6 +44,53 @@ router.post(
   /* validateLogin, */ login
 );
 
+// Exchange a refresh token for new tokens
+router.post("/refresh", authLimiter, refresh);
+
+// End the current session, or every session of the user (protected)
+router.post("/logout", protect, logout);
+router.post("/logout-all", protect, logoutAll);
+
+// Password reset by mailed token, and password change (protected)
+router.post(
+  "/password/forgot",
+  passwordResetLimiter,
+  validateForgotPassword,
+  forgotPassword
+);
+router.post(
+  "/password/reset",
+  authLimiter,
+  validateResetPassword,
+  resetPassword
+);
+router.post(
+  "/password/change",
+  authLimiter,
+  protect,
+  validateChangePassword,
+  changePassword
+);
+
+// Email verification by mailed token, and resending the mail (protected)
+router.post("/email/verify", authLimiter, validateVerifyEmail, verifyEmail);
+router.post("/email/resend", protect, resendVerificationEmail);
+
+// Second login step for accounts with 2FA. The challenge is loaded first
+// so failed codes count towards the lockout of the login they belong to
+router.post(
+  "/2fa/verify",
+  authLimiter,
+  requireTwoFactorChallenge,
+  checkAccountLockout,
+  verifyTwoFactor
+);
+
+// Two-factor enrollment and removal (protected)
+router.post("/2fa/setup", protect, setupTwoFactor);
+router.post("/2fa/confirm", authLimiter, protect, confirmTwoFactor);
+router.post("/2fa/disable", authLimiter, protect, disableTwoFactor);
+
 // Get current user route (protected)
 router.get("/me", protect, getCurrentUser);
 
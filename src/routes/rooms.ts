@@ -3,20 +3,46 @@ import {
   createRoom,
   getPublicRooms,
   getRoomById,
+  updateRoom,
+  cancelRoom,
   joinRoom,
+  leaveRoom,
+  declineInvitation,
+  transferOwnership,
+  joinWaitlist,
+  leaveWaitlist,
+  getWaitlistPosition,
+  confirmWaitlistSeat,
   inviteUsers,
   getUserRooms,
   getAllRooms,
+  getRoomByCode,
+  joinRoomByCode,
+  rotateRoomCode,
+  revokeRoomCode,
+  getRoomPresence,
 } from "../controllers/roomController";
 import {
   getRoomMessages,
   createMessage,
+  updateMessage,
+  deleteMessage,
+  getMessageHistory,
+  getMessageReplies,
+  markMessageRead,
 } from "../controllers/messageController";
 import {
   createReaction,
   getRoomReactions,
+  toggleMessageReaction,
 } from "../controllers/reactionController";
-import { protect } from "../middleware/auth";
+import { protect, requireVerifiedEmail } from "../middleware/auth";
+import {
+  validateGetMessages,
+  validateEditMessage,
+  validateMessageId,
+  validateGetReplies,
+} from "../middleware/validation";
 
 const router = express.Router();
 
@@ -25,20 +51,60 @@ router.use(protect);
 
 // Room routes - IMPORTANT: Specific routes must be defined BEFORE parameterized routes (like /:id)
 // Otherwise Express will try to interpret "/all" as a room ID
-router.post("/", createRoom);
+router.post("/", requireVerifiedEmail, createRoom);
 router.get("/public", getPublicRooms);
 router.get("/user", getUserRooms);
 router.get("/all", getAllRooms);
+router.get("/code/:code", getRoomByCode);
+router.post("/code/:code/join", joinRoomByCode);
 router.get("/:id", getRoomById);
+router.patch("/:id", updateRoom);
+router.delete("/:id", cancelRoom);
 router.post("/:roomId/join", joinRoom);
-router.post("/:roomId/invite", inviteUsers);
+router.post("/:roomId/leave", leaveRoom);
+router.get("/:roomId/presence", getRoomPresence);
+router.post("/:roomId/invitations/decline", declineInvitation);
+router.post("/:roomId/transfer-ownership", transferOwnership);
+router.post("/:roomId/waitlist", joinWaitlist);
+router.delete("/:roomId/waitlist", leaveWaitlist);
+router.get("/:roomId/waitlist/position", getWaitlistPosition);
+router.post("/:roomId/waitlist/confirm", confirmWaitlistSeat);
+router.post("/:roomId/invite", requireVerifiedEmail, inviteUsers);
+router.post("/:roomId/code/rotate", rotateRoomCode);
+router.delete("/:roomId/code", revokeRoomCode);
 
 // Message routes
-router.get("/:roomId/messages", getRoomMessages);
+router.get("/:roomId/messages", validateGetMessages, getRoomMessages);
 router.post("/:roomId/messages", createMessage);
+router.patch(
+  "/:roomId/messages/:messageId",
+  validateEditMessage,
+  updateMessage
+);
+router.delete("/:roomId/messages/:messageId", validateMessageId, deleteMessage);
+router.get(
+  "/:roomId/messages/:messageId/replies",
+  validateGetReplies,
+  getMessageReplies
+);
+router.get(
+  "/:roomId/messages/:messageId/history",
+  validateMessageId,
+  getMessageHistory
+);
+router.post(
+  "/:roomId/messages/:messageId/read",
+  validateMessageId,
+  markMessageRead
+);
 
 // Reaction routes
 router.get("/:roomId/reactions", getRoomReactions);
 router.post("/:roomId/reactions", createReaction);
+router.post(
+  "/:roomId/messages/:messageId/reactions",
+  validateMessageId,
+  toggleMessageReaction
+);
 
 export default router;
@@ -0,0 +1,22 @@
+import express from "express";
+import {
+  createSeries,
+  getSeries,
+  updateSeries,
+  endSeries,
+} from "../controllers/seriesController";
+import { protect, requireVerifiedEmail } from "../middleware/auth";
+
+const router = express.Router();
+
+// Protect all routes
+router.use(protect);
+
+// Series routes. Single occurrences are edited and cancelled through the
+// regular /api/rooms/:id routes
+router.post("/", requireVerifiedEmail, createSeries);
+router.get("/:id", getSeries);
+router.patch("/:id", requireVerifiedEmail, updateSeries);
+router.delete("/:id", endSeries);
+
+export default router;
@@ -1,5 +1,9 @@
 import express from "express";
 import { protect } from "../middleware/auth";
+import {
+  getUnreadMentions,
+  markMentionsRead,
+} from "../controllers/messageController";
 
 const router = express.Router();
 
@@ -14,4 +18,8 @@ router.get("/", (req, res) => {
   });
 });
 
+// Mentions of the current user
+router.get("/me/mentions", getUnreadMentions);
+router.post("/me/mentions/read", markMentionsRead);
+
 export default router;
@@ -0,0 +1,68 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import AccountToken, { AccountTokenPurpose } from "../models/AccountToken";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Account token service: single-use, expiring tokens that are mailed to a
+// user to prove they control their address. Only a hash is stored, so a
+// database leak does not hand out working links
+class AccountTokenService {
+  // Issue a token, replacing any unused token the user has for the same
+  // purpose. Returns the raw token to send to the user
+  async issue(
+    userId: ObjectIdLike,
+    purpose: AccountTokenPurpose,
+    ttlMs: number
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString("base64url");
+    const now = new Date();
+
+    await AccountToken.updateMany(
+      { user: userId, purpose, usedAt: null },
+      { $set: { usedAt: now } }
+    );
+
+    await AccountToken.create({
+      user: userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(now.getTime() + ttlMs),
+    });
+
+    return token;
+  }
+
+  // Redeem a token. It is marked used in the same conditional update that
+  // checks it, so it works once. Returns the user id, or null if the token
+  // is unknown, expired or already used
+  async consume(
+    token: unknown,
+    purpose: AccountTokenPurpose
+  ): Promise<string | null> {
+    if (typeof token !== "string" || !token) {
+      return null;
+    }
+
+    const now = new Date();
+    const record = await AccountToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        purpose,
+        usedAt: null,
+        expiresAt: { $gt: now },
+      },
+      { $set: { usedAt: now } },
+      { new: true }
+    );
+
+    return record ? record.user.toString() : null;
+  }
+}
+
+// Export singleton instance
+export const accountTokenService = new AccountTokenService();
+export default accountTokenService;
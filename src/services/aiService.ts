@@ -2,9 +2,7 @@ import axios from "axios";
 import { IRoom } from "../models/Room";
 import { IMessage } from "../models/Message";
 import { IUser } from "../models/User";
-import dotenv from "dotenv";
-
-dotenv.config();
+import { config } from "../config/env";
 
 interface AIResponse {
   success: boolean;
@@ -62,7 +60,7 @@ class AIService {
       {
         name: "openrouter",
         baseURL: "https://openrouter.ai/api/v1",
-        apiKey: process.env.OPENROUTER_API_KEY,
+        apiKey: config.ai.openRouterApiKey,
         model: "mistralai/mistral-7b-instruct", // Free model
         maxTokens: 200,
         temperature: 0.7,
@@ -70,7 +68,7 @@ class AIService {
       // Ollama (Local, completely free)
       {
         name: "ollama",
-        baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
+        baseURL: config.ai.ollamaBaseUrl,
         model: "llama2:7b", // Free local model
         maxTokens: 150,
         temperature: 0.7,
@@ -79,7 +77,7 @@ class AIService {
       {
         name: "huggingface",
         baseURL: "https://api-inference.huggingface.co/models",
-        apiKey: process.env.HUGGINGFACE_API_KEY,
+        apiKey: config.ai.huggingFaceApiKey,
         model: "distilgpt2", // Free model - more reliable and faster
         maxTokens: 150,
         temperature: 0.7,
@@ -1,12 +1,13 @@
 import Redis from "ioredis";
 import { loggerHelpers } from "../utils/logger";
-
-// Redis client configuration
-const redisConfig = {
-  host: process.env.REDIS_HOST || "localhost",
-  port: parseInt(process.env.REDIS_PORT || "6379"),
-  password: process.env.REDIS_PASSWORD,
-  db: parseInt(process.env.REDIS_DB || "0"),
+import { config } from "../config/env";
+
+// Redis client configuration, shared with the Socket.IO Redis adapter
+export const redisConfig = {
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password,
+  db: config.redis.db,
   retryDelayOnFailover: 100,
   maxRetriesPerRequest: 3,
   lazyConnect: true,
@@ -160,19 +161,20 @@ class CacheService {
     }
   }
 
-  // User session caching
-  async setUserSession(userId: string, sessionData: any): Promise<void> {
-    const key = `${CACHE_KEYS.USER_SESSION}${userId}`;
+  // User session caching, keyed by session id. Only active sessions are
+  // cached, so revoking a session must invalidate its entry
+  async setUserSession(sessionId: string, sessionData: any): Promise<void> {
+    const key = `${CACHE_KEYS.USER_SESSION}${sessionId}`;
     await this.set(key, sessionData, CACHE_TTL.USER_SESSION);
   }
 
-  async getUserSession(userId: string): Promise<any | null> {
-    const key = `${CACHE_KEYS.USER_SESSION}${userId}`;
+  async getUserSession(sessionId: string): Promise<any | null> {
+    const key = `${CACHE_KEYS.USER_SESSION}${sessionId}`;
     return this.get(key);
   }
 
-  async invalidateUserSession(userId: string): Promise<void> {
-    const key = `${CACHE_KEYS.USER_SESSION}${userId}`;
+  async invalidateUserSession(sessionId: string): Promise<void> {
+    const key = `${CACHE_KEYS.USER_SESSION}${sessionId}`;
     await this.del(key);
   }
 
@@ -262,24 +264,82 @@ class CacheService {
     await this.del(key);
   }
 
+  // Reaction counts per message, as { emoji: count }
+  async setReactionCounts(
+    messageId: string,
+    counts: Record<string, number>
+  ): Promise<void> {
+    const key = `${CACHE_KEYS.REACTION_COUNT}${messageId}`;
+    await this.set(key, counts, CACHE_TTL.REACTION_COUNT);
+  }
+
+  async invalidateReactionCounts(messageId: string): Promise<void> {
+    const key = `${CACHE_KEYS.REACTION_COUNT}${messageId}`;
+    await this.del(key);
+  }
+
+  async getReactionCounts(
+    messageId: string
+  ): Promise<Record<string, number> | null> {
+    const key = `${CACHE_KEYS.REACTION_COUNT}${messageId}`;
+    return this.get(key);
+  }
+
   // Online users tracking
-  async setOnlineUser(userId: string, socketId: string): Promise<void> {
+  // Online presence: the set of a user's live socket ids, one per tab or
+  // device, so closing one connection does not take the user offline
+  async addOnlineSocket(userId: string, socketId: string): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
     const key = `${CACHE_KEYS.ONLINE_USERS}${userId}`;
-    await this.set(
-      key,
-      { socketId, lastSeen: Date.now() },
-      CACHE_TTL.USER_SESSION
-    );
+    try {
+      await this.redis
+        .multi()
+        .sadd(key, socketId)
+        .expire(key, CACHE_TTL.USER_SESSION)
+        .exec();
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        operation: "cache_add_online_socket",
+        key,
+      });
+    }
   }
 
-  async getOnlineUser(userId: string): Promise<any | null> {
+  async removeOnlineSocket(userId: string, socketId: string): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
     const key = `${CACHE_KEYS.ONLINE_USERS}${userId}`;
-    return this.get(key);
+    try {
+      // Redis drops the set once its last member is removed
+      await this.redis.srem(key, socketId);
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        operation: "cache_remove_online_socket",
+        key,
+      });
+    }
   }
 
-  async removeOnlineUser(userId: string): Promise<void> {
+  async getOnlineSockets(userId: string): Promise<string[]> {
+    if (!this.isConnected) {
+      return [];
+    }
+
     const key = `${CACHE_KEYS.ONLINE_USERS}${userId}`;
-    await this.del(key);
+    try {
+      return await this.redis.smembers(key);
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        operation: "cache_get_online_sockets",
+        key,
+      });
+      return [];
+    }
   }
 
   // Room participants caching
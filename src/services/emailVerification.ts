@@ -0,0 +1,116 @@
+import mongoose from "mongoose";
+import User, { IUser } from "../models/User";
+import { AccountTokenPurpose } from "../models/AccountToken";
+import { config } from "../config/env";
+import accountTokenService from "./accountTokens";
+import mailer from "./mailer";
+import { loggerHelpers } from "../utils/logger";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export type SendVerificationResult =
+  | { status: "sent" }
+  | { status: "already_verified" | "not_found" }
+  | { status: "throttled"; retryAfterSeconds: number };
+
+// Email verification service. New accounts get a mailed link; until they
+// follow it, requireVerifiedEmail keeps them from creating rooms or
+// inviting people
+class EmailVerificationService {
+  // Mail a fresh verification link. Resends are throttled per user: the
+  // send time is claimed in a conditional update, so concurrent requests
+  // cannot both get through
+  async sendVerification(
+    userId: ObjectIdLike
+  ): Promise<SendVerificationResult> {
+    const now = new Date();
+    const cooldownMs =
+      config.accountTokens.emailVerificationResendSeconds * 1000;
+
+    const user = await User.findOneAndUpdate(
+      {
+        _id: userId,
+        emailVerified: false,
+        $or: [
+          { emailVerificationSentAt: null },
+          {
+            emailVerificationSentAt: {
+              $lte: new Date(now.getTime() - cooldownMs),
+            },
+          },
+        ],
+      },
+      { $set: { emailVerificationSentAt: now } },
+      { new: true }
+    );
+
+    if (!user) {
+      const existing = await User.findById(userId).select(
+        "emailVerified emailVerificationSentAt"
+      );
+
+      if (!existing) {
+        return { status: "not_found" };
+      }
+
+      if (existing.isEmailVerified()) {
+        return { status: "already_verified" };
+      }
+
+      const nextAllowedAt =
+        (existing.emailVerificationSentAt?.getTime() || 0) + cooldownMs;
+      return {
+        status: "throttled",
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((nextAllowedAt - now.getTime()) / 1000)
+        ),
+      };
+    }
+
+    const token = await accountTokenService.issue(
+      user._id,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+      config.accountTokens.emailVerificationTtlHours * 60 * 60 * 1000
+    );
+
+    await mailer.sendEmailVerification(user.email, token);
+
+    loggerHelpers.logUserAction(
+      user._id.toString(),
+      "email_verification_sent",
+      {}
+    );
+
+    return { status: "sent" };
+  }
+
+  // Redeem a verification token. Returns the verified user, or null if the
+  // token is unknown, expired or already used
+  async verify(token: unknown): Promise<IUser | null> {
+    const userId = await accountTokenService.consume(
+      token,
+      AccountTokenPurpose.EMAIL_VERIFICATION
+    );
+
+    if (!userId) {
+      return null;
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: { emailVerified: true } },
+      { new: true }
+    ).select("-password");
+
+    if (user) {
+      loggerHelpers.logUserAction(userId, "email_verified", {});
+    }
+
+    return user;
+  }
+}
+
+// Export singleton instance
+export const emailVerificationService = new EmailVerificationService();
+export default emailVerificationService;
@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SentMail extends MailMessage {
+  from: string;
+  sentAt: string;
+}
+
+// Anything that can deliver mail. Plug a real provider in with
+// mailer.setTransport()
+export interface MailTransport {
+  send(mail: SentMail): Promise<void>;
+}
+
+// Keeps mail in process. Used in tests, which read the outbox directly
+export class MemoryTransport implements MailTransport {
+  outbox: SentMail[] = [];
+
+  async send(mail: SentMail): Promise<void> {
+    this.outbox.push(mail);
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
+
+// Writes each message to a JSON file, for local development
+export class FileTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(mail: SentMail): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const name = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`;
+    await fs.writeFile(
+      path.join(this.dir, name),
+      JSON.stringify(mail, null, 2)
+    );
+    logger.info("Mail written to outbox", {
+      to: mail.to,
+      subject: mail.subject,
+      file: name,
+    });
+  }
+}
+
+// Sends mail through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER...)
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: typeof config.mail.smtp) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(mail: SentMail): Promise<void> {
+    await this.transporter.sendMail({
+      from: mail.from,
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+    });
+  }
+}
+
+// Drops every message. Used in production when no SMTP server is set up,
+// so the gap shows in the logs instead of going unnoticed
+export class DisabledTransport implements MailTransport {
+  async send(mail: SentMail): Promise<void> {
+    logger.warn("Mail is disabled, message not sent", {
+      to: mail.to,
+      subject: mail.subject,
+    });
+  }
+}
+
+const createDefaultTransport = (): MailTransport => {
+  switch (config.mail.transport) {
+    case "smtp":
+      return new SmtpTransport(config.mail.smtp);
+    case "memory":
+      return new MemoryTransport();
+    case "disabled":
+      logger.warn(
+        "Mail is disabled: set SMTP_HOST to send password reset and " +
+          "verification mail"
+      );
+      return new DisabledTransport();
+    default:
+      return new FileTransport(config.mail.outboxDir);
+  }
+};
+
+// Mailer service: composes outgoing mail and hands it to the transport
+class MailerService {
+  private transport: MailTransport = createDefaultTransport();
+
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransport(): MailTransport {
+    return this.transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({
+      ...message,
+      from: config.mail.from,
+      sentAt: new Date().toISOString(),
+    });
+  }
+
+  // Link for the client's reset page, which posts the token back
+  async sendPasswordReset(to: string, token: string): Promise<void> {
+    const link = `${config.mail.appUrl}/reset-password?token=${token}`;
+    await this.send({
+      to,
+      subject: "Reset your RoomLoop password",
+      text:
+        `Someone asked to reset the password for this account. If it was ` +
+        `you, open this link within ` +
+        `${config.accountTokens.passwordResetTtlMinutes} minutes:\n\n` +
+        `${link}\n\nIf it was not you, you can ignore this message.`,
+    });
+  }
+
+  async sendEmailVerification(to: string, token: string): Promise<void> {
+    const link = `${config.mail.appUrl}/verify-email?token=${token}`;
+    await this.send({
+      to,
+      subject: "Confirm your RoomLoop email address",
+      text:
+        `Open this link within ` +
+        `${config.accountTokens.emailVerificationTtlHours} hours to confirm ` +
+        `your email address:\n\n${link}\n\nUntil you do, you can browse ` +
+        `public rooms but not create rooms or invite people.`,
+    });
+  }
+
+  async sendPasswordChanged(to: string): Promise<void> {
+    await this.send({
+      to,
+      subject: "Your RoomLoop password was changed",
+      text:
+        "The password for this account was just changed and every other " +
+        "session was signed out. If this was not you, reset your password " +
+        "straight away.",
+    });
+  }
+}
+
+// Export singleton instance
+export const mailer = new MailerService();
+export default mailer;
@@ -0,0 +1,413 @@
+import mongoose from "mongoose";
+import Message, { IMessage } from "../models/Message";
+import Room, { IRoom, RoomStatus } from "../models/Room";
+import User, { IUser } from "../models/User";
+import roomMembership from "./roomMembership";
+import { config } from "../config/env";
+import { threadChannel } from "../utils/channels";
+import { parseMentions } from "../utils/mentions";
+import { cursorCondition } from "../utils/cursor";
+import { io } from "../index";
+
+export interface SendMessageInput {
+  roomId: string;
+  sender: IUser;
+  content: unknown;
+  parentMessageId?: unknown;
+  clientMessageId?: unknown; // Client-generated id that makes retries idempotent
+}
+
+export type SendMessageErrorCode =
+  | "invalid_content"
+  | "invalid_client_id"
+  | "room_not_found"
+  | "room_not_live"
+  | "not_participant"
+  | "room_full"
+  | "parent_not_found"
+  | "nested_reply";
+
+export type SendMessageResult =
+  | { ok: true; message: IMessage; duplicate: boolean }
+  | {
+      ok: false;
+      code: SendMessageErrorCode;
+      status: number; // Matching HTTP status
+      message: string;
+    };
+
+export interface ResyncAnchor {
+  lastMessageId?: unknown; // Last message the client received
+  lastSeenAt?: unknown; // Or when it last heard from the room
+}
+
+export type ResyncResult =
+  | { messages: IMessage[]; reloadRequired: false }
+  | {
+      messages: IMessage[];
+      reloadRequired: true;
+      reason: "gap_too_large" | "unknown_message";
+    };
+
+const MAX_CONTENT_LENGTH = 2000;
+
+// Longest gap replayed to a reconnecting client
+const RESYNC_MAX_MESSAGES = config.messages.resyncMaxMessages;
+const CLIENT_MESSAGE_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const failure = (
+  code: SendMessageErrorCode,
+  status: number,
+  message: string
+): SendMessageResult => ({ ok: false, code, status, message });
+
+// Messaging service: the single path for sending a message, shared by the HTTP
+// route and the send_message socket event so both enforce the same rules
+class MessagingService {
+  async sendMessage(input: SendMessageInput): Promise<SendMessageResult> {
+    const { roomId, sender, content, parentMessageId, clientMessageId } = input;
+
+    if (
+      typeof content !== "string" ||
+      !content.trim() ||
+      content.length > MAX_CONTENT_LENGTH
+    ) {
+      return failure(
+        "invalid_content",
+        400,
+        `Message content must be between 1 and ${MAX_CONTENT_LENGTH} characters`
+      );
+    }
+
+    if (
+      clientMessageId !== undefined &&
+      clientMessageId !== null &&
+      (typeof clientMessageId !== "string" ||
+        !CLIENT_MESSAGE_ID_PATTERN.test(clientMessageId))
+    ) {
+      return failure(
+        "invalid_client_id",
+        400,
+        "clientMessageId must be 1-64 letters, numbers, underscores or hyphens"
+      );
+    }
+
+    // Check if room exists
+    const room = mongoose.Types.ObjectId.isValid(roomId)
+      ? await Room.findById(roomId)
+      : null;
+    if (!room) {
+      return failure("room_not_found", 404, "Room not found");
+    }
+
+    // Check if room is live
+    if (room.status !== RoomStatus.LIVE) {
+      return failure(
+        "room_not_live",
+        400,
+        "Cannot send messages to a room that is not live"
+      );
+    }
+
+    // Check if user is a participant or the creator
+    const isParticipant = room.participants.some(
+      (participant) => participant.toString() === sender._id.toString()
+    );
+
+    const isCreator = room.creator.toString() === sender._id.toString();
+
+    if (!isParticipant && !isCreator) {
+      // If not a participant yet, try to auto-join if user is invited
+      const isInvited = room.invitedUsers.some(
+        (invited) => invited.toString() === sender._id.toString()
+      );
+
+      if (!isInvited) {
+        return failure(
+          "not_participant",
+          403,
+          "You must join the room to send messages"
+        );
+      }
+
+      // Auto-join the room for invited users, subject to capacity
+      const result = await roomMembership.addParticipant(roomId, sender._id);
+
+      if (result.status === "full") {
+        return failure("room_full", 400, "Room is at maximum capacity");
+      }
+
+      console.log(`Auto-joined user ${sender._id} to room ${roomId}`);
+    }
+
+    // A retry of a message that was already saved gets the original back.
+    // Checked only once the sender is known to be allowed to post here
+    if (clientMessageId) {
+      const existing = await this.findByClientId(
+        room,
+        sender,
+        clientMessageId as string
+      );
+      if (existing) {
+        return { ok: true, message: existing, duplicate: true };
+      }
+    }
+
+    // Replies must point at a top-level message in the same room
+    if (parentMessageId !== undefined && parentMessageId !== null) {
+      const parent =
+        typeof parentMessageId === "string" &&
+        mongoose.Types.ObjectId.isValid(parentMessageId)
+          ? await Message.findOne({ _id: parentMessageId, room: roomId })
+          : null;
+
+      if (!parent || parent.deletedAt) {
+        return failure("parent_not_found", 404, "Parent message not found");
+      }
+
+      if (parent.parentMessage) {
+        return failure("nested_reply", 400, "Cannot reply to a reply");
+      }
+    }
+
+    const mentionedUserIds = await this.resolveMentions(room, content, sender);
+
+    // Create new message
+    let message: IMessage;
+    try {
+      message = await Message.create({
+        content,
+        sender: sender._id,
+        room: roomId,
+        parentMessage: parentMessageId || null,
+        mentions: mentionedUserIds.map((userId) => ({ user: userId })),
+        clientMessageId: clientMessageId || null,
+      });
+    } catch (error: any) {
+      // A concurrent retry with the same client id got there first
+      const existing =
+        error?.code === 11000 && clientMessageId
+          ? await this.findByClientId(room, sender, clientMessageId as string)
+          : null;
+      if (existing) {
+        return { ok: true, message: existing, duplicate: true };
+      }
+      throw error;
+    }
+
+    // Populate sender info for the response
+    const populatedMessage = (await Message.findById(message._id).populate(
+      "sender",
+      "username"
+    ))!;
+
+    // Keep the thread parent's reply count and last reply time current
+    const threadParent = message.parentMessage
+      ? await Message.findByIdAndUpdate(
+          message.parentMessage,
+          {
+            $inc: { replyCount: 1 },
+            $set: { lastReplyAt: message.createdAt },
+          },
+          { new: true }
+        )
+      : null;
+
+    this.broadcast(
+      room,
+      populatedMessage,
+      sender,
+      mentionedUserIds,
+      threadParent
+    );
+
+    console.log(
+      `Message saved and broadcasted to room ${roomId}:`,
+      populatedMessage
+    );
+
+    return { ok: true, message: populatedMessage, duplicate: false };
+  }
+
+  // Top-level messages a reconnecting client missed, oldest first. Returns
+  // null when the client sent no usable anchor. Gaps longer than
+  // RESYNC_MAX_MESSAGES are not replayed; the client reloads the timeline
+  // through the paginated messages endpoint instead
+  async getMissedMessages(
+    roomId: string,
+    anchor: ResyncAnchor
+  ): Promise<ResyncResult | null> {
+    const filter: Record<string, any> = { room: roomId, parentMessage: null };
+
+    if (anchor.lastMessageId !== undefined && anchor.lastMessageId !== null) {
+      const last =
+        typeof anchor.lastMessageId === "string" &&
+        mongoose.Types.ObjectId.isValid(anchor.lastMessageId)
+          ? await Message.findOne({
+              _id: anchor.lastMessageId,
+              room: roomId,
+            }).select("createdAt")
+          : null;
+
+      if (!last) {
+        return {
+          messages: [],
+          reloadRequired: true,
+          reason: "unknown_message",
+        };
+      }
+
+      Object.assign(
+        filter,
+        cursorCondition({ createdAt: last.createdAt, id: last._id }, "after")
+      );
+    } else {
+      const lastSeenAt =
+        typeof anchor.lastSeenAt === "string" ||
+        typeof anchor.lastSeenAt === "number"
+          ? new Date(anchor.lastSeenAt)
+          : null;
+
+      if (!lastSeenAt || isNaN(lastSeenAt.getTime())) {
+        return null;
+      }
+
+      filter.createdAt = { $gt: lastSeenAt };
+    }
+
+    // Fetch one extra message to find out whether the gap is too large.
+    // Sorted on the {room, createdAt, _id} index keys
+    const messages = await Message.find(filter)
+      .select("-editHistory")
+      .populate("sender", "username")
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(RESYNC_MAX_MESSAGES + 1);
+
+    if (messages.length > RESYNC_MAX_MESSAGES) {
+      return { messages: [], reloadRequired: true, reason: "gap_too_large" };
+    }
+
+    return { messages, reloadRequired: false };
+  }
+
+  // Keep the thread parent's reply count and last reply time current when
+  // a reply is deleted. The last reply time falls back to the newest reply
+  // still standing
+  async removeThreadReply(
+    parentId: mongoose.Types.ObjectId
+  ): Promise<IMessage | null> {
+    const latestReply = await Message.findOne({
+      parentMessage: parentId,
+      deletedAt: null,
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .select("createdAt");
+
+    return Message.findOneAndUpdate(
+      { _id: parentId, replyCount: { $gt: 0 } },
+      {
+        $inc: { replyCount: -1 },
+        $set: { lastReplyAt: latestReply?.createdAt || null },
+      },
+      { new: true }
+    );
+  }
+
+  private findByClientId(
+    room: IRoom,
+    sender: IUser,
+    clientMessageId: string
+  ): Promise<IMessage | null> {
+    return Message.findOne({
+      room: room._id,
+      sender: sender._id,
+      clientMessageId,
+    }).populate("sender", "username");
+  }
+
+  private broadcast(
+    room: IRoom,
+    message: IMessage,
+    sender: IUser,
+    mentionedUserIds: mongoose.Types.ObjectId[],
+    threadParent: IMessage | null
+  ): void {
+    const roomId = room._id.toString();
+    const payload = {
+      roomId: roomId,
+      message,
+      senderId: sender._id.toString(),
+      clientMessageId: message.clientMessageId || null, // Lets the sender match its optimistic copy
+    };
+
+    if (message.parentMessage) {
+      const threadId = message.parentMessage.toString();
+
+      // Replies go to clients that have the thread open; the room only hears
+      // about the new reply count
+      io.to(threadChannel(threadId)).emit("receive_message", {
+        ...payload,
+        threadId,
+      });
+
+      io.to(roomId).emit("thread_updated", {
+        roomId: roomId,
+        messageId: threadId,
+        replyCount: threadParent?.replyCount,
+        lastReplyAt: threadParent?.lastReplyAt,
+      });
+    } else {
+      // Emit socket event to all users in the room
+      io.to(roomId).emit("receive_message", payload);
+    }
+
+    // Tell mentioned users directly, wherever they are in the app
+    if (mentionedUserIds.length > 0) {
+      io.to(mentionedUserIds.map((userId) => userId.toString())).emit(
+        "user_mentioned",
+        {
+          roomId: roomId,
+          roomTitle: room.title,
+          messageId: message._id,
+          threadId: message.parentMessage || null,
+          content: message.content,
+          mentionedBy: sender.username,
+        }
+      );
+    }
+  }
+
+  // Resolve the @mentions in a message to room members. Only the creator and
+  // participants can be mentioned, and senders are never notified about
+  // themselves
+  private async resolveMentions(
+    room: IRoom,
+    content: string,
+    sender: IUser
+  ): Promise<mongoose.Types.ObjectId[]> {
+    const parsed = parseMentions(content);
+
+    if (!parsed.here && !parsed.host && parsed.usernames.length === 0) {
+      return [];
+    }
+
+    const members = await User.find({
+      _id: { $in: [room.creator, ...room.participants] },
+    }).select("username");
+
+    const mentioned = members.filter(
+      (member) =>
+        parsed.here ||
+        (parsed.host && member._id.toString() === room.creator.toString()) ||
+        parsed.usernames.includes(member.username.toLowerCase())
+    );
+
+    return mentioned
+      .filter((member) => member._id.toString() !== sender._id.toString())
+      .map((member) => member._id);
+  }
+}
+
+// Export singleton instance
+export const messagingService = new MessagingService();
+export default messagingService;
@@ -0,0 +1,231 @@
+import mongoose from "mongoose";
+import Reaction from "../models/Reaction";
+import cacheService from "./cache";
+import { config } from "../config/env";
+import { loggerHelpers } from "../utils/logger";
+import { io } from "../index";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export type ReactionCounts = Record<string, number>; // emoji -> count
+
+// Burst configuration
+const BURST_CONFIG = {
+  // Reactions arriving within this window are sent as one event per emoji
+  windowMs: config.realtime.reactionBurstWindowMs,
+  // Usernames included in a burst event
+  maxUsernames: 10,
+};
+
+type PendingBurst = { count: number; usernames: Set<string> };
+
+type RoomBurstWindow = {
+  timer: NodeJS.Timeout;
+  pending: Map<string, PendingBurst>; // emoji -> burst
+};
+
+export type ToggleReactionResult = {
+  action: "added" | "removed";
+  counts: ReactionCounts;
+};
+
+// Reaction service: per-message reactions and their aggregated counts, and
+// live room reactions. Counts are served from the REACTION_COUNT cache, which
+// every toggle invalidates
+class ReactionService {
+  private burstWindows = new Map<string, RoomBurstWindow>();
+
+  // Broadcast a room reaction as receive_reaction. The first reaction in a
+  // quiet room goes out immediately; reactions that follow within the burst
+  // window are counted per emoji and sent together when the window closes
+  broadcastRoomReaction(roomId: string, emoji: string, username: string): void {
+    const window = this.burstWindows.get(roomId);
+
+    if (!window) {
+      this.emitBurst(roomId, emoji, {
+        count: 1,
+        usernames: new Set([username]),
+      });
+      this.openBurstWindow(roomId);
+      return;
+    }
+
+    const burst = window.pending.get(emoji) || {
+      count: 0,
+      usernames: new Set<string>(),
+    };
+    burst.count++;
+    if (burst.usernames.size < BURST_CONFIG.maxUsernames) {
+      burst.usernames.add(username);
+    }
+    window.pending.set(emoji, burst);
+  }
+
+  private openBurstWindow(roomId: string): void {
+    const timer = setTimeout(() => {
+      const window = this.burstWindows.get(roomId);
+      this.burstWindows.delete(roomId);
+
+      if (!window || window.pending.size === 0) {
+        return;
+      }
+
+      window.pending.forEach((burst, emoji) =>
+        this.emitBurst(roomId, emoji, burst)
+      );
+
+      // Keep coalescing while reactions keep coming
+      this.openBurstWindow(roomId);
+    }, BURST_CONFIG.windowMs);
+
+    // Do not hold the process open for a pending burst
+    timer.unref();
+
+    this.burstWindows.set(roomId, { timer, pending: new Map() });
+  }
+
+  private emitBurst(roomId: string, emoji: string, burst: PendingBurst): void {
+    io.to(roomId).emit("receive_reaction", {
+      roomId,
+      emoji,
+      count: burst.count,
+      usernames: Array.from(burst.usernames),
+      timestamp: new Date().toISOString(),
+    });
+
+    if (burst.count > 1) {
+      loggerHelpers.logRoomEvent(roomId, "reaction_burst", undefined, {
+        emoji,
+        count: burst.count,
+      });
+    }
+  }
+
+  // Add the user's reaction, or remove it if they already reacted with that
+  // emoji. The unique {room, message, user, emoji} index keeps a double
+  // click from adding the same reaction twice
+  async toggleMessageReaction(
+    roomId: ObjectIdLike,
+    messageId: ObjectIdLike,
+    userId: ObjectIdLike,
+    emoji: string
+  ): Promise<ToggleReactionResult> {
+    const key = { room: roomId, message: messageId, user: userId, emoji };
+    let action: ToggleReactionResult["action"] = "removed";
+
+    const removed = await Reaction.findOneAndDelete(key);
+
+    if (!removed) {
+      action = "added";
+      try {
+        await Reaction.create(key);
+      } catch (error: any) {
+        // A concurrent request added the same reaction first
+        if (error?.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+
+    // Invalidate rather than write the recount: two toggles can finish
+    // their recounts in either order, and the older one must not be cached
+    await cacheService.invalidateReactionCounts(messageId.toString());
+
+    const counts = await this.countForMessages([messageId]);
+    const messageCounts = counts.get(messageId.toString()) || {};
+
+    return { action, counts: messageCounts };
+  }
+
+  // Reaction counts for a set of messages, from the cache where possible
+  async getCounts(
+    messageIds: ObjectIdLike[]
+  ): Promise<Map<string, ReactionCounts>> {
+    const ids = messageIds.map((messageId) => messageId.toString());
+    const counts = new Map<string, ReactionCounts>();
+
+    const cached = await Promise.all(
+      ids.map((messageId) => cacheService.getReactionCounts(messageId))
+    );
+
+    const missing: string[] = [];
+    ids.forEach((messageId, i) => {
+      if (cached[i]) {
+        counts.set(messageId, cached[i]!);
+      } else {
+        missing.push(messageId);
+      }
+    });
+
+    if (missing.length > 0) {
+      const fresh = await this.countForMessages(missing);
+
+      await Promise.all(
+        missing.map((messageId) => {
+          const messageCounts = fresh.get(messageId) || {};
+          counts.set(messageId, messageCounts);
+          return cacheService.setReactionCounts(messageId, messageCounts);
+        })
+      );
+    }
+
+    return counts;
+  }
+
+  // Emojis a user has reacted with, per message
+  async getUserReactions(
+    messageIds: ObjectIdLike[],
+    userId: ObjectIdLike
+  ): Promise<Map<string, string[]>> {
+    const reactions = await Reaction.find({
+      message: { $in: messageIds },
+      user: userId,
+    }).select("message emoji");
+
+    const byMessage = new Map<string, string[]>();
+    for (const reaction of reactions) {
+      const messageId = reaction.message!.toString();
+      byMessage.set(messageId, [
+        ...(byMessage.get(messageId) || []),
+        reaction.emoji,
+      ]);
+    }
+
+    return byMessage;
+  }
+
+  private async countForMessages(
+    messageIds: ObjectIdLike[]
+  ): Promise<Map<string, ReactionCounts>> {
+    const rows = await Reaction.aggregate([
+      {
+        $match: {
+          message: {
+            $in: messageIds.map((id) => new mongoose.Types.ObjectId(id)),
+          },
+        },
+      },
+      {
+        $group: {
+          _id: { message: "$message", emoji: "$emoji" },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+
+    const counts = new Map<string, ReactionCounts>();
+    for (const row of rows) {
+      const messageId = row._id.message.toString();
+      counts.set(messageId, {
+        ...(counts.get(messageId) || {}),
+        [row._id.emoji]: row.count,
+      });
+    }
+
+    return counts;
+  }
+}
+
+// Export singleton instance
+export const reactionService = new ReactionService();
+export default reactionService;
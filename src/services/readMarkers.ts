@@ -0,0 +1,101 @@
+import mongoose from "mongoose";
+import ReadMarker, { IReadMarker } from "../models/ReadMarker";
+import Message, { IMessage } from "../models/Message";
+import { IRoom } from "../models/Room";
+import { IUser } from "../models/User";
+import { io } from "../index";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Read marker service: each user's last seen message per room, unread counts
+// derived from it, and read_receipt broadcasts
+class ReadMarkerService {
+  // Move the user's marker up to a message. Markers only move forward, so a
+  // late request for an older message returns null and changes nothing
+  async markRead(
+    room: IRoom,
+    user: IUser,
+    message: IMessage
+  ): Promise<IReadMarker | null> {
+    let marker: IReadMarker | null;
+
+    try {
+      // The filter only matches a marker behind this message. When the
+      // marker is already further along, the upsert collides with it on the
+      // unique {user, room} index instead
+      marker = await ReadMarker.findOneAndUpdate(
+        {
+          user: user._id,
+          room: room._id,
+          lastReadAt: { $lt: message.createdAt },
+        },
+        {
+          $set: {
+            lastReadMessage: message._id,
+            lastReadAt: message.createdAt,
+          },
+        },
+        { upsert: true, new: true }
+      );
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (marker && room.readReceiptsEnabled !== false) {
+      io.to(room._id.toString()).emit("read_receipt", {
+        roomId: room._id.toString(),
+        userId: user._id.toString(),
+        username: user.username,
+        messageId: message._id.toString(),
+        readAt: new Date().toISOString(),
+      });
+    }
+
+    return marker;
+  }
+
+  async getMarker(
+    roomId: ObjectIdLike,
+    userId: ObjectIdLike
+  ): Promise<IReadMarker | null> {
+    return ReadMarker.findOne({ user: userId, room: roomId });
+  }
+
+  // Unread top-level messages from other users, per room. Rooms without a
+  // marker count every message
+  async getUnreadCounts(
+    userId: ObjectIdLike,
+    roomIds: ObjectIdLike[]
+  ): Promise<Map<string, number>> {
+    const markers = await ReadMarker.find({
+      user: userId,
+      room: { $in: roomIds },
+    }).select("room lastReadAt");
+
+    const lastReadAt = new Map<string, Date>(
+      markers.map((marker) => [marker.room.toString(), marker.lastReadAt])
+    );
+
+    const counts = await Promise.all(
+      roomIds.map((roomId) => {
+        const since = lastReadAt.get(roomId.toString());
+        return Message.countDocuments({
+          room: roomId,
+          sender: { $ne: userId },
+          parentMessage: null,
+          deletedAt: null,
+          ...(since ? { createdAt: { $gt: since } } : {}),
+        });
+      })
+    );
+
+    return new Map(roomIds.map((roomId, i) => [roomId.toString(), counts[i]]));
+  }
+}
+
+// Export singleton instance
+export const readMarkerService = new ReadMarkerService();
+export default readMarkerService;
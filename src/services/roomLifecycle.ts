@@ -0,0 +1,161 @@
+import mongoose from "mongoose";
+import Room, { IRoom, RoomStatus, RoomType } from "../models/Room";
+import User from "../models/User";
+import { loggerHelpers } from "../utils/logger";
+import { io } from "../index";
+
+export interface CreateRoomInput {
+  title: string;
+  description: string;
+  roomType?: RoomType;
+  startTime: Date;
+  endTime: Date;
+  maxParticipants?: number | null;
+  creator: mongoose.Types.ObjectId;
+  invitedUsers?: mongoose.Types.ObjectId[];
+  waitlistEnabled?: boolean;
+  readReceiptsEnabled?: boolean;
+  tags?: string[];
+  series?: mongoose.Types.ObjectId;
+  occurrenceStart?: Date;
+}
+
+// Generate a random room code
+const generateRoomCode = (): string => {
+  const characters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  let code = "";
+  for (let i = 0; i < 6; i++) {
+    code += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return code;
+};
+
+// Room lifecycle service: creation, notifications and cancellation shared by
+// the room and series controllers and the room scheduler
+class RoomLifecycleService {
+  // Generate a room code that is not used by any other room
+  async generateUniqueRoomCode(): Promise<string> {
+    let code = generateRoomCode();
+    let codeExists = await Room.findOne({ code });
+
+    // Keep generating until we have a unique code
+    while (codeExists) {
+      code = generateRoomCode();
+      codeExists = await Room.findOne({ code });
+    }
+
+    return code;
+  }
+
+  // Create a room with its creator as the first participant and record it on
+  // the creator's and invitees' room lists
+  async createRoom(input: CreateRoomInput): Promise<IRoom> {
+    const { creator, invitedUsers = [], ...details } = input;
+
+    // Generate a unique room code
+    const code = await this.generateUniqueRoomCode();
+
+    const room = new Room({
+      ...details,
+      creator,
+      participants: [creator], // Creator automatically joins
+      invitedUsers,
+      code,
+    });
+
+    await room.save();
+
+    // Add room to user's created rooms
+    await User.findByIdAndUpdate(creator, {
+      $push: { createdRooms: room._id, joinedRooms: room._id },
+    });
+
+    if (invitedUsers.length > 0) {
+      await User.updateMany(
+        { _id: { $in: invitedUsers } },
+        { $addToSet: { invitedToRooms: room._id } }
+      );
+    }
+
+    return room;
+  }
+
+  // Emit an event on the room channel and on the user channel of every
+  // participant and invitee. Socket.IO delivers it once per socket even when
+  // a socket is in several of those channels
+  notifyMembers(room: IRoom, event: string, payload: any): number {
+    const recipients = new Set(
+      [room.creator, ...room.participants, ...room.invitedUsers].map(
+        (member: any) => (member._id || member).toString()
+      )
+    );
+
+    io.to([room._id.toString(), ...recipients]).emit(event, payload);
+
+    return recipients.size;
+  }
+
+  // Cancel a room that has not closed yet. The room document is kept for
+  // history, but it is removed from every user's room lists. Returns null if
+  // the room was already closed or cancelled
+  async cancelRoom(
+    roomId: string | mongoose.Types.ObjectId,
+    cancelledBy: mongoose.Types.ObjectId
+  ): Promise<IRoom | null> {
+    const room = await Room.findOneAndUpdate(
+      {
+        _id: roomId,
+        status: { $in: [RoomStatus.SCHEDULED, RoomStatus.LIVE] },
+      },
+      {
+        $set: {
+          status: RoomStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancelledBy,
+        },
+      },
+      { new: true }
+    );
+
+    if (!room) {
+      return null;
+    }
+
+    await User.updateMany(
+      {
+        $or: [
+          { createdRooms: room._id },
+          { joinedRooms: room._id },
+          { invitedToRooms: room._id },
+        ],
+      },
+      {
+        $pull: {
+          createdRooms: room._id,
+          joinedRooms: room._id,
+          invitedToRooms: room._id,
+        },
+      }
+    );
+
+    const notified = this.notifyMembers(room, "room_cancelled", {
+      roomId: room._id,
+      roomTitle: room.title,
+      status: room.status,
+      cancelledAt: room.cancelledAt,
+    });
+
+    loggerHelpers.logRoomEvent(
+      room._id.toString(),
+      "cancelled",
+      cancelledBy.toString(),
+      { notified }
+    );
+
+    return room;
+  }
+}
+
+// Export singleton instance
+export const roomLifecycle = new RoomLifecycleService();
+export default roomLifecycle;
@@ -0,0 +1,448 @@
+import mongoose from "mongoose";
+import Room, { IRoom, RoomStatus, RoomType } from "../models/Room";
+import User from "../models/User";
+import { config } from "../config/env";
+import { loggerHelpers } from "../utils/logger";
+import { io } from "../index";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export type AddParticipantResult =
+  | { status: "joined"; room: IRoom }
+  | { status: "full" | "already_joined" | "not_found"; room: null };
+
+export type JoinWaitlistResult =
+  | { status: "waitlisted"; position: number; room: IRoom }
+  | {
+      status:
+        | "not_found"
+        | "disabled"
+        | "seat_available"
+        | "already_joined"
+        | "already_waitlisted";
+      room: null;
+    };
+
+// Waitlist configuration
+const WAITLIST_CONFIG = {
+  // How long a promoted user has to confirm their seat
+  offerWindowMs: config.waitlist.offerWindowMs,
+  // Upper bound on promotions handed out in one pass
+  maxPromotionsPerPass: 50,
+};
+
+// Seats taken by participants plus seats held for promoted waitlist users
+const occupiedSeats = {
+  $add: [
+    { $size: "$participants" },
+    { $size: { $ifNull: ["$seatOffers", []] } },
+  ],
+};
+
+// Matches rooms with a free seat. Evaluated inside the same update that adds
+// the participant, so concurrent joins cannot overshoot maxParticipants
+const freeSeatConditions = (): Record<string, any>[] => [
+  { maxParticipants: null },
+  { $expr: { $lt: [occupiedSeats, "$maxParticipants"] } },
+];
+
+// Matches rooms a newcomer can join straight away: a seat is free and nobody
+// is waiting for one. While people wait, freed seats go to them in order
+// through promoteFromWaitlist, so a join racing a leave cannot take a seat
+// before it is offered to the front of the line
+const openSeatCondition = (): Record<string, any> => ({
+  "waitlist.0": { $exists: false },
+  $or: freeSeatConditions(),
+});
+
+// Matches rooms where the user holds an unexpired seat offer
+const heldSeatCondition = (userId: ObjectIdLike): Record<string, any> => ({
+  seatOffers: { $elemMatch: { user: userId, expiresAt: { $gt: new Date() } } },
+});
+
+// Room membership service. Room.participants/invitedUsers and
+// User.joinedRooms/invitedToRooms are denormalized copies of the same
+// relationship, so every change here updates both sides
+class RoomMembershipService {
+  // Public rooms are readable by everyone; private rooms only by their
+  // creator, participants and invited users
+  canViewRoom(room: IRoom, userId: ObjectIdLike): boolean {
+    if (room.roomType !== RoomType.PRIVATE) {
+      return true;
+    }
+
+    const isUser = (id: any) => (id._id || id).toString() === userId.toString();
+
+    return (
+      isUser(room.creator) ||
+      room.participants.some(isUser) ||
+      room.invitedUsers.some(isUser)
+    );
+  }
+
+  // Add a participant if the room has an open seat or a seat is held for
+  // them, in a single conditional update. Used by every join path, including
+  // invited users' auto-join and confirming a waitlist seat offer
+  async addParticipant(
+    roomId: ObjectIdLike,
+    userId: ObjectIdLike
+  ): Promise<AddParticipantResult> {
+    const room = await Room.findOneAndUpdate(
+      {
+        _id: roomId,
+        participants: { $ne: userId },
+        $or: [openSeatCondition(), heldSeatCondition(userId)],
+      },
+      {
+        $push: { participants: userId },
+        $pull: {
+          invitedUsers: userId, // Remove from invited if they were invited
+          waitlist: { user: userId },
+          seatOffers: { user: userId },
+        },
+      },
+      { new: true }
+    );
+
+    if (room) {
+      await User.findByIdAndUpdate(userId, {
+        $addToSet: { joinedRooms: room._id },
+        $pull: { invitedToRooms: room._id },
+      });
+
+      return { status: "joined", room };
+    }
+
+    // Work out why the update did not match
+    const current = await Room.findById(roomId).select(
+      "participants waitlist seatOffers maxParticipants"
+    );
+
+    if (!current) {
+      return { status: "not_found", room: null };
+    }
+
+    const isParticipant = current.participants.some(
+      (participantId) => participantId.toString() === userId.toString()
+    );
+
+    if (isParticipant) {
+      return { status: "already_joined", room: null };
+    }
+
+    // A seat is free but held back for the waitlist. Offer it now in case
+    // the promotion after a leave has not happened
+    const hasFreeSeat =
+      current.maxParticipants == null ||
+      current.participants.length + current.seatOffers.length <
+        current.maxParticipants;
+    if (hasFreeSeat && current.waitlist.length > 0) {
+      await this.promoteFromWaitlist(roomId);
+    }
+
+    return { status: "full", room: null };
+  }
+
+  // Remove a participant from a room. The creator cannot leave their own room.
+  // Returns the updated room, or null if the user was not a removable participant
+  async leaveRoom(
+    roomId: ObjectIdLike,
+    userId: ObjectIdLike
+  ): Promise<IRoom | null> {
+    const room = await Room.findOneAndUpdate(
+      { _id: roomId, participants: userId, creator: { $ne: userId } },
+      { $pull: { participants: userId } },
+      { new: true }
+    );
+
+    if (!room) {
+      return null;
+    }
+
+    await User.findByIdAndUpdate(userId, {
+      $pull: { joinedRooms: room._id },
+    });
+
+    // Hand the freed seat to the next person in line
+    await this.promoteFromWaitlist(room._id);
+
+    return room;
+  }
+
+  // Withdraw a pending invitation. Returns the updated room, or null if the
+  // user had no pending invitation
+  async declineInvitation(
+    roomId: ObjectIdLike,
+    userId: ObjectIdLike
+  ): Promise<IRoom | null> {
+    const room = await Room.findOneAndUpdate(
+      { _id: roomId, invitedUsers: userId },
+      { $pull: { invitedUsers: userId } },
+      { new: true }
+    );
+
+    // Clean up the user's side even if the room side was already gone
+    await User.findByIdAndUpdate(userId, {
+      $pull: { invitedToRooms: roomId },
+    });
+
+    return room;
+  }
+
+  // Put a user at the back of a full room's waitlist. A room with people
+  // already waiting counts as full
+  async joinWaitlist(
+    roomId: ObjectIdLike,
+    userId: ObjectIdLike
+  ): Promise<JoinWaitlistResult> {
+    const room = await Room.findOneAndUpdate(
+      {
+        _id: roomId,
+        waitlistEnabled: true,
+        participants: { $ne: userId },
+        "waitlist.user": { $ne: userId },
+        "seatOffers.user": { $ne: userId },
+        $nor: [openSeatCondition()],
+      },
+      { $push: { waitlist: { user: userId, joinedAt: new Date() } } },
+      { new: true }
+    );
+
+    if (room) {
+      return {
+        status: "waitlisted",
+        position: this.getWaitlistPosition(room, userId),
+        room,
+      };
+    }
+
+    // Work out why the update did not match
+    const current = await Room.findById(roomId);
+
+    if (!current) {
+      return { status: "not_found", room: null };
+    }
+
+    const isUser = (id: mongoose.Types.ObjectId) =>
+      id.toString() === userId.toString();
+
+    if (!current.waitlistEnabled) {
+      return { status: "disabled", room: null };
+    }
+
+    if (current.participants.some(isUser)) {
+      return { status: "already_joined", room: null };
+    }
+
+    if (
+      current.waitlist.some((entry) => isUser(entry.user)) ||
+      current.seatOffers.some((offer) => isUser(offer.user))
+    ) {
+      return { status: "already_waitlisted", room: null };
+    }
+
+    return { status: "seat_available", room: null };
+  }
+
+  // Remove a user from the waitlist, giving up any seat offer they hold.
+  // Returns false if the user was not waiting
+  async leaveWaitlist(
+    roomId: ObjectIdLike,
+    userId: ObjectIdLike
+  ): Promise<boolean> {
+    // Read the document as it was before the update to see what was removed
+    const previous = await Room.findOneAndUpdate(
+      {
+        _id: roomId,
+        $or: [{ "waitlist.user": userId }, { "seatOffers.user": userId }],
+      },
+      { $pull: { waitlist: { user: userId }, seatOffers: { user: userId } } }
+    );
+
+    if (!previous) {
+      return false;
+    }
+
+    const heldOffer = previous.seatOffers.some(
+      (offer) => offer.user.toString() === userId.toString()
+    );
+
+    if (heldOffer) {
+      await this.promoteFromWaitlist(roomId);
+    }
+
+    return true;
+  }
+
+  // Turn a room's waitlist off. Everyone waiting, including people holding
+  // a seat offer, is dropped and told, so the held seats open up for direct
+  // joins. Returns the number of people removed
+  async disableWaitlist(roomId: ObjectIdLike): Promise<number> {
+    // Read the document as it was before the update to see who was removed
+    const previous = await Room.findOneAndUpdate(
+      { _id: roomId, waitlistEnabled: true },
+      { $set: { waitlistEnabled: false, waitlist: [], seatOffers: [] } }
+    ).select("title waitlist seatOffers");
+
+    if (!previous) {
+      return 0;
+    }
+
+    const removedUserIds = [
+      ...previous.seatOffers.map((offer) => offer.user.toString()),
+      ...previous.waitlist.map((entry) => entry.user.toString()),
+    ];
+
+    if (removedUserIds.length > 0) {
+      io.to(removedUserIds).emit("waitlist_closed", {
+        roomId: previous._id,
+        roomTitle: previous.title,
+      });
+    }
+
+    return removedUserIds.length;
+  }
+
+  // 1-based position of a user in the waitlist, or 0 if they are not waiting
+  getWaitlistPosition(room: IRoom, userId: ObjectIdLike): number {
+    return (
+      room.waitlist.findIndex(
+        (entry) => entry.user.toString() === userId.toString()
+      ) + 1
+    );
+  }
+
+  // Offer free seats to the people at the front of the waitlist. Each offer
+  // holds the seat until it is confirmed or expires
+  async promoteFromWaitlist(roomId: ObjectIdLike): Promise<number> {
+    let promoted = 0;
+
+    while (promoted < WAITLIST_CONFIG.maxPromotionsPerPass) {
+      const room = await Room.findOne({
+        _id: roomId,
+        waitlistEnabled: true,
+        status: { $in: [RoomStatus.SCHEDULED, RoomStatus.LIVE] },
+        "waitlist.0": { $exists: true },
+      }).select("title waitlist");
+
+      if (!room) {
+        break;
+      }
+
+      const nextUserId = room.waitlist[0].user;
+      const expiresAt = new Date(Date.now() + WAITLIST_CONFIG.offerWindowMs);
+
+      // Only succeeds while the same user is still first and a seat is free
+      const updatedRoom = await Room.findOneAndUpdate(
+        {
+          _id: roomId,
+          "waitlist.0.user": nextUserId,
+          $or: freeSeatConditions(),
+        },
+        {
+          $pull: { waitlist: { user: nextUserId } },
+          $push: { seatOffers: { user: nextUserId, expiresAt } },
+        },
+        { new: true }
+      );
+
+      if (!updatedRoom) {
+        // Stop when there is no free seat; retry if the line moved under us
+        const head = await Room.findById(roomId).select("waitlist");
+        if (
+          head?.waitlist[0] &&
+          head.waitlist[0].user.toString() !== nextUserId.toString()
+        ) {
+          continue;
+        }
+        break;
+      }
+
+      promoted++;
+
+      io.to(nextUserId.toString()).emit("waitlist_promoted", {
+        roomId: updatedRoom._id,
+        roomTitle: updatedRoom.title,
+        expiresAt,
+      });
+
+      loggerHelpers.logRoomEvent(
+        updatedRoom._id.toString(),
+        "waitlist_promoted",
+        nextUserId.toString(),
+        { expiresAt }
+      );
+    }
+
+    return promoted;
+  }
+
+  // Release seat offers that were not confirmed in time and promote the next
+  // people in line. Called periodically by the room scheduler
+  async expireSeatOffers(): Promise<void> {
+    const now = new Date();
+    const rooms = await Room.find({ "seatOffers.expiresAt": { $lte: now } })
+      .select("title seatOffers")
+      .limit(100);
+
+    for (const room of rooms) {
+      const expiredOffers = room.seatOffers.filter(
+        (offer) => offer.expiresAt <= now
+      );
+
+      for (const offer of expiredOffers) {
+        const result = await Room.updateOne(
+          {
+            _id: room._id,
+            seatOffers: {
+              $elemMatch: { user: offer.user, expiresAt: { $lte: now } },
+            },
+          },
+          { $pull: { seatOffers: { user: offer.user } } }
+        );
+
+        if (result.modifiedCount > 0) {
+          io.to(offer.user.toString()).emit("waitlist_offer_expired", {
+            roomId: room._id,
+            roomTitle: room.title,
+          });
+        }
+      }
+
+      await this.promoteFromWaitlist(room._id);
+    }
+  }
+
+  // Hand a room over to one of its participants. Returns the updated room, or
+  // null if the current creator changed or the new owner is not a participant
+  async transferOwnership(
+    roomId: ObjectIdLike,
+    currentOwnerId: ObjectIdLike,
+    newOwnerId: ObjectIdLike
+  ): Promise<IRoom | null> {
+    const room = await Room.findOneAndUpdate(
+      { _id: roomId, creator: currentOwnerId, participants: newOwnerId },
+      { $set: { creator: newOwnerId } },
+      { new: true }
+    );
+
+    if (!room) {
+      return null;
+    }
+
+    await Promise.all([
+      User.findByIdAndUpdate(currentOwnerId, {
+        $pull: { createdRooms: room._id },
+      }),
+      User.findByIdAndUpdate(newOwnerId, {
+        $addToSet: { createdRooms: room._id },
+      }),
+    ]);
+
+    return room;
+  }
+}
+
+// Export singleton instance
+export const roomMembership = new RoomMembershipService();
+export default roomMembership;
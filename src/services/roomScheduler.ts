@@ -0,0 +1,138 @@
+import Room, { IRoom, RoomStatus } from "../models/Room";
+import roomLifecycle from "./roomLifecycle";
+import roomMembership from "./roomMembership";
+import roomSeriesService from "./roomSeries";
+import { config } from "../config/env";
+import { loggerHelpers } from "../utils/logger";
+
+// Moves rooms through SCHEDULED -> LIVE -> CLOSED as their start and end times pass.
+// Every transition is a conditional update on the previous status, so only one
+// tick (on one instance) can win it and the status event is emitted once.
+// All state lives on the room documents, so a restarted server simply catches up.
+export class RoomScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private lastSeriesRun: number = 0;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick();
+    }, config.scheduler.intervalMs);
+
+    // Catch up on anything that became due while the server was down
+    this.tick();
+
+    loggerHelpers.logPerformance(
+      "room_scheduler_started",
+      config.scheduler.intervalMs,
+      "ms"
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run one pass over all due rooms
+  async tick(): Promise<void> {
+    // Skip if the previous pass is still running
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const now = new Date();
+
+      // Rooms past their end time close, whether or not they ever went live
+      await this.transitionDueRooms(
+        {
+          status: { $in: [RoomStatus.SCHEDULED, RoomStatus.LIVE] },
+          endTime: { $lte: now },
+        },
+        RoomStatus.CLOSED
+      );
+
+      await this.transitionDueRooms(
+        {
+          status: RoomStatus.SCHEDULED,
+          startTime: { $lte: now },
+          endTime: { $gt: now },
+        },
+        RoomStatus.LIVE
+      );
+
+      // Give unconfirmed waitlist seats to the next people in line
+      await roomMembership.expireSeatOffers();
+
+      // Create upcoming rooms for recurring series
+      if (
+        Date.now() - this.lastSeriesRun >=
+        config.scheduler.seriesIntervalMs
+      ) {
+        this.lastSeriesRun = Date.now();
+        await roomSeriesService.extendAll();
+      }
+    } catch (error) {
+      loggerHelpers.logError(error as Error, { operation: "room_scheduler" });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async transitionDueRooms(
+    filter: Record<string, any>,
+    nextStatus: RoomStatus
+  ): Promise<void> {
+    const dueRooms = await Room.find(filter)
+      .select("_id status")
+      .sort({ startTime: 1 })
+      .limit(config.scheduler.batchSize);
+
+    for (const dueRoom of dueRooms) {
+      const previousStatus = dueRoom.status;
+
+      // Only the caller that actually flips the status gets the document back
+      const room = await Room.findOneAndUpdate(
+        { _id: dueRoom._id, status: previousStatus },
+        { $set: { status: nextStatus } },
+        { new: true }
+      );
+
+      if (room) {
+        this.notifyStatusChange(room, previousStatus);
+      }
+    }
+  }
+
+  private notifyStatusChange(room: IRoom, previousStatus: RoomStatus): void {
+    // Notify all participants and invited users
+    const notified = roomLifecycle.notifyMembers(room, "room_status_changed", {
+      roomId: room._id,
+      roomTitle: room.title,
+      status: room.status,
+    });
+
+    loggerHelpers.logRoomEvent(
+      room._id.toString(),
+      "status_changed",
+      undefined,
+      {
+        from: previousStatus,
+        to: room.status,
+        notified,
+      }
+    );
+  }
+}
+
+// Export singleton instance
+export const roomScheduler = new RoomScheduler();
+export default roomScheduler;
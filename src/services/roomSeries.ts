@@ -0,0 +1,265 @@
+import mongoose from "mongoose";
+import Room, { IRoom, RoomStatus } from "../models/Room";
+import RoomSeries, { IRoomSeries } from "../models/RoomSeries";
+import User from "../models/User";
+import roomLifecycle from "./roomLifecycle";
+import { config } from "../config/env";
+import { getOccurrences, hasOccurrencesAfter } from "../utils/recurrence";
+import { loggerHelpers } from "../utils/logger";
+
+// Series configuration
+const SERIES_CONFIG = {
+  // Rooms are created this far ahead of their start time
+  horizonDays: config.series.horizonDays,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SeriesChanges {
+  timingChanged: boolean; // First start, duration, recurrence or exceptions
+  newInvitees: mongoose.Types.ObjectId[];
+}
+
+// Room series service: turns a series' recurrence rule into concrete Room
+// documents on a rolling horizon and propagates series-wide edits
+class RoomSeriesService {
+  // End of the rolling horizon that rooms are created up to
+  horizonEnd(): Date {
+    return new Date(Date.now() + SERIES_CONFIG.horizonDays * DAY_MS);
+  }
+
+  // Create rooms for every occurrence that is running or starts within the
+  // horizon. Safe to run concurrently: the unique {series, occurrenceStart}
+  // index rejects duplicate occurrences
+  async materialize(series: IRoomSeries): Promise<IRoom[]> {
+    const now = new Date();
+    const durationMs = series.durationMinutes * 60 * 1000;
+    const horizonEnd = this.horizonEnd();
+
+    const starts = getOccurrences(
+      series.recurrence,
+      series.firstStartTime,
+      new Date(now.getTime() - durationMs + 1), // Include occurrences still running
+      horizonEnd,
+      series.exceptions
+    );
+
+    const existing = await Room.find({
+      series: series._id,
+      occurrenceStart: { $in: starts },
+    }).select("occurrenceStart");
+    const existingStarts = new Set(
+      existing.map((room) => room.occurrenceStart?.getTime())
+    );
+
+    const created: IRoom[] = [];
+
+    for (const start of starts) {
+      if (existingStarts.has(start.getTime())) {
+        continue;
+      }
+
+      try {
+        const room = await roomLifecycle.createRoom({
+          title: series.title,
+          description: series.description,
+          roomType: series.roomType,
+          startTime: start,
+          endTime: new Date(start.getTime() + durationMs),
+          maxParticipants: series.maxParticipants || null,
+          creator: series.creator,
+          invitedUsers: series.invitedUsers,
+          waitlistEnabled: series.waitlistEnabled,
+          tags: series.tags,
+          series: series._id,
+          occurrenceStart: start,
+        });
+        created.push(room);
+      } catch (error: any) {
+        // Another instance created this occurrence first
+        if (error?.code === 11000) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    await RoomSeries.updateOne(
+      { _id: series._id },
+      {
+        $set: {
+          generatedUntil: horizonEnd,
+          // Stop extending once the rule has run out
+          active:
+            series.active &&
+            hasOccurrencesAfter(
+              series.recurrence,
+              series.firstStartTime,
+              horizonEnd
+            ),
+        },
+      }
+    );
+
+    if (created.length > 0) {
+      loggerHelpers.logPerformance(
+        "series_occurrences_created",
+        created.length,
+        "rooms",
+        { seriesId: series._id.toString() }
+      );
+    }
+
+    return created;
+  }
+
+  // Extend the rolling horizon of every active series. Called periodically by
+  // the room scheduler
+  async extendAll(): Promise<void> {
+    const activeSeries = await RoomSeries.find({ active: true });
+
+    for (const series of activeSeries) {
+      try {
+        await this.materialize(series);
+      } catch (error) {
+        loggerHelpers.logError(error as Error, {
+          operation: "series_extend",
+          seriesId: series._id.toString(),
+        });
+      }
+    }
+  }
+
+  // Apply a series-wide edit to its upcoming occurrences. Occurrences that were
+  // edited on their own, or have already started, are left alone. If the
+  // timing changed, occurrences that the rule no longer produces are cancelled
+  // and new ones are created
+  async applyToOccurrences(
+    series: IRoomSeries,
+    changes: SeriesChanges
+  ): Promise<{ updated: number; cancelled: number; created: number }> {
+    const durationMs = series.durationMinutes * 60 * 1000;
+    const rooms = await Room.find({
+      series: series._id,
+      status: RoomStatus.SCHEDULED,
+      detachedFromSeries: { $ne: true },
+    });
+
+    let validStarts: Set<number> | null = null;
+    if (changes.timingChanged && rooms.length > 0) {
+      const latestStart = Math.max(
+        ...rooms.map((room) => room.occurrenceStart?.getTime() || 0)
+      );
+      validStarts = new Set(
+        getOccurrences(
+          series.recurrence,
+          series.firstStartTime,
+          new Date(),
+          new Date(latestStart),
+          series.exceptions
+        ).map((start) => start.getTime())
+      );
+    }
+
+    let updated = 0;
+    let cancelled = 0;
+
+    for (const room of rooms) {
+      const occurrenceStart = room.occurrenceStart || room.startTime;
+
+      if (validStarts && !validStarts.has(occurrenceStart.getTime())) {
+        if (await roomLifecycle.cancelRoom(room._id, series.creator)) {
+          cancelled++;
+        }
+        continue;
+      }
+
+      const updatedRoom = await Room.findOneAndUpdate(
+        { _id: room._id, status: RoomStatus.SCHEDULED },
+        {
+          $set: {
+            title: series.title,
+            description: series.description,
+            tags: series.tags,
+            waitlistEnabled: series.waitlistEnabled,
+            startTime: occurrenceStart,
+            endTime: new Date(occurrenceStart.getTime() + durationMs),
+          },
+          $addToSet: { invitedUsers: { $each: changes.newInvitees } },
+        },
+        { new: true }
+      );
+
+      if (!updatedRoom) {
+        continue;
+      }
+
+      // Capacity is only lowered where the current participants still fit
+      await Room.updateOne(
+        series.maxParticipants
+          ? {
+              _id: room._id,
+              $expr: {
+                $lte: [
+                  {
+                    $add: [
+                      { $size: "$participants" },
+                      { $size: { $ifNull: ["$seatOffers", []] } },
+                    ],
+                  },
+                  series.maxParticipants,
+                ],
+              },
+            }
+          : { _id: room._id },
+        { $set: { maxParticipants: series.maxParticipants || null } }
+      );
+
+      if (changes.newInvitees.length > 0) {
+        await User.updateMany(
+          { _id: { $in: changes.newInvitees } },
+          { $addToSet: { invitedToRooms: room._id } }
+        );
+      }
+
+      roomLifecycle.notifyMembers(updatedRoom, "room_updated", {
+        roomId: updatedRoom._id,
+        room: updatedRoom,
+      });
+      updated++;
+    }
+
+    const created = await this.materialize(series);
+
+    return { updated, cancelled, created: created.length };
+  }
+
+  // Stop a series and cancel all of its occurrences that have not started
+  async endSeries(
+    series: IRoomSeries,
+    endedBy: mongoose.Types.ObjectId
+  ): Promise<number> {
+    await RoomSeries.updateOne(
+      { _id: series._id },
+      { $set: { active: false } }
+    );
+
+    const upcoming = await Room.find({
+      series: series._id,
+      status: RoomStatus.SCHEDULED,
+    }).select("_id");
+
+    let cancelled = 0;
+    for (const room of upcoming) {
+      if (await roomLifecycle.cancelRoom(room._id, endedBy)) {
+        cancelled++;
+      }
+    }
+
+    return cancelled;
+  }
+}
+
+// Export singleton instance
+export const roomSeriesService = new RoomSeriesService();
+export default roomSeriesService;
@@ -0,0 +1,254 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Session, { ISession } from "../models/Session";
+import { config } from "../config/env";
+import cacheService from "./cache";
+import { sessionChannel } from "../utils/channels";
+import { loggerHelpers } from "../utils/logger";
+import { signWithCurrentKey, verifyWithAcceptedKeys } from "../utils/jwtKeys";
+import { io } from "../index";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+const hashSecret = (secret: string): string =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+const generateSecret = (): string =>
+  crypto.randomBytes(32).toString("base64url");
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string; // `${sessionId}.${secret}`
+}
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ip?: string;
+}
+
+export type VerifyAccessTokenResult =
+  | { ok: true; userId: string; sessionId: string }
+  | { ok: false; reason: "invalid" | "revoked" };
+
+export type RefreshResult =
+  | { ok: true; userId: string; tokens: SessionTokens }
+  | { ok: false; reason: "invalid" | "expired" | "revoked" | "reused" };
+
+// Session service: login sessions with short-lived access tokens and rotating
+// refresh tokens. Access tokens carry their session id, so revoking a session
+// ends its access tokens and live sockets straight away
+class SessionService {
+  async createSession(
+    userId: ObjectIdLike,
+    metadata: SessionMetadata = {}
+  ): Promise<SessionTokens> {
+    const secret = generateSecret();
+
+    const session = await Session.create({
+      user: userId,
+      refreshTokenHash: hashSecret(secret),
+      expiresAt: new Date(
+        Date.now() + config.jwt.refreshTokenTtlDays * 24 * 60 * 60 * 1000
+      ),
+      userAgent: metadata.userAgent || null,
+      ip: metadata.ip || null,
+    });
+
+    return this.issueTokens(session, secret);
+  }
+
+  // Exchange a refresh token for new tokens. The refresh token is rotated in
+  // the same conditional update that checks it, so each one works once
+  async refresh(refreshToken: unknown): Promise<RefreshResult> {
+    const [sessionId, secret] =
+      typeof refreshToken === "string" ? refreshToken.split(".") : [];
+
+    if (!sessionId || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+      return { ok: false, reason: "invalid" };
+    }
+
+    const presentedHash = hashSecret(secret);
+    const newSecret = generateSecret();
+    const now = new Date();
+
+    const session = await Session.findOneAndUpdate(
+      {
+        _id: sessionId,
+        refreshTokenHash: presentedHash,
+        revokedAt: null,
+        expiresAt: { $gt: now },
+      },
+      {
+        $set: {
+          refreshTokenHash: hashSecret(newSecret),
+          previousRefreshTokenHash: presentedHash,
+          lastUsedAt: now,
+        },
+      },
+      { new: true }
+    );
+
+    if (session) {
+      return {
+        ok: true,
+        userId: session.user.toString(),
+        tokens: this.issueTokens(session, newSecret),
+      };
+    }
+
+    const existing = await Session.findById(sessionId);
+
+    if (!existing) {
+      return { ok: false, reason: "invalid" };
+    }
+
+    if (existing.revokedAt) {
+      return { ok: false, reason: "revoked" };
+    }
+
+    if (existing.expiresAt <= now) {
+      return { ok: false, reason: "expired" };
+    }
+
+    // A token that was already rotated away is being replayed, so someone
+    // else may hold a copy. End the session for both
+    if (existing.previousRefreshTokenHash === presentedHash) {
+      await this.revokeSession(existing._id, "refresh_token_reuse");
+      return { ok: false, reason: "reused" };
+    }
+
+    return { ok: false, reason: "invalid" };
+  }
+
+  // Check an access token's signature and that its session is still active
+  async verifyAccessToken(token: string): Promise<VerifyAccessTokenResult> {
+    let decoded: { id?: string; sid?: string };
+
+    try {
+      decoded = verifyWithAcceptedKeys<{ id?: string; sid?: string }>(token);
+    } catch (error) {
+      return { ok: false, reason: "invalid" };
+    }
+
+    if (!decoded.id || !decoded.sid) {
+      return { ok: false, reason: "invalid" };
+    }
+
+    if (!(await this.isSessionActive(decoded.sid, decoded.id))) {
+      return { ok: false, reason: "revoked" };
+    }
+
+    return { ok: true, userId: decoded.id, sessionId: decoded.sid };
+  }
+
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const cached = await cacheService.getUserSession(sessionId);
+    if (cached) {
+      return cached.userId === userId;
+    }
+
+    const session = mongoose.Types.ObjectId.isValid(sessionId)
+      ? await Session.findOne({
+          _id: sessionId,
+          user: userId,
+          revokedAt: null,
+          expiresAt: { $gt: new Date() },
+        }).select("_id")
+      : null;
+
+    if (!session) {
+      return false;
+    }
+
+    await cacheService.setUserSession(sessionId, { userId });
+    return true;
+  }
+
+  // Revoke one session and disconnect the sockets opened with it. Returns
+  // false if it was already revoked
+  async revokeSession(
+    sessionId: ObjectIdLike,
+    reason: string
+  ): Promise<boolean> {
+    const session = await Session.findOneAndUpdate(
+      { _id: sessionId, revokedAt: null },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+
+    await cacheService.invalidateUserSession(sessionId.toString());
+    io.in(sessionChannel(sessionId.toString())).disconnectSockets(true);
+
+    if (session) {
+      loggerHelpers.logUserAction(session.user.toString(), "session_revoked", {
+        sessionId: sessionId.toString(),
+        reason,
+      });
+    }
+
+    return session !== null;
+  }
+
+  // Revoke every session of a user ("log out everywhere") and disconnect
+  // their sockets. exceptSessionId keeps one session, and its sockets,
+  // signed in. Returns the number of sessions revoked
+  async revokeAllSessions(
+    userId: ObjectIdLike,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const sessions = await Session.find({
+      user: userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { _id: { $ne: exceptSessionId } } : {}),
+    }).select("_id");
+
+    if (sessions.length > 0) {
+      await Session.updateMany(
+        { _id: { $in: sessions.map((session) => session._id) } },
+        { $set: { revokedAt: new Date() } }
+      );
+
+      await Promise.all(
+        sessions.map((session) =>
+          cacheService.invalidateUserSession(session._id.toString())
+        )
+      );
+    }
+
+    if (exceptSessionId) {
+      io.in(userId.toString())
+        .except(sessionChannel(exceptSessionId))
+        .disconnectSockets(true);
+    } else {
+      io.in(userId.toString()).disconnectSockets(true);
+    }
+
+    loggerHelpers.logUserAction(userId.toString(), "sessions_revoked", {
+      count: sessions.length,
+      reason,
+    });
+
+    return sessions.length;
+  }
+
+  private issueTokens(session: ISession, secret: string): SessionTokens {
+    const sessionId = session._id.toString();
+
+    const accessToken = signWithCurrentKey(
+      { id: session.user.toString(), sid: sessionId },
+      config.jwt.accessTokenTtl
+    );
+
+    return {
+      sessionId,
+      accessToken,
+      refreshToken: `${sessionId}.${secret}`,
+    };
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
+export default sessionService;
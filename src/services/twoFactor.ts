@@ -0,0 +1,218 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import User from "../models/User";
+import { config } from "../config/env";
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from "../utils/totp";
+import { signWithCurrentKey, verifyWithAcceptedKeys } from "../utils/jwtKeys";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_PURPOSE = "2fa_challenge";
+
+// A login that passed the password check and still needs a code. `login` is
+// the identifier the password was checked under, for account lockout
+export interface TwoFactorChallenge {
+  userId: string;
+  login: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash("sha256").update(code).digest("hex");
+
+// Recovery codes are compared without case, spaces or dashes
+const normalizeCode = (code: string): string =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+// "xxxxx-xxxxx" in hex
+const generateRecoveryCode = (): string => {
+  const hex = crypto.randomBytes(5).toString("hex");
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+// Two-factor service: TOTP enrollment, code checks and the short-lived
+// challenge token that links the two login steps
+class TwoFactorService {
+  // Start enrollment with a new secret. It only takes effect once a code
+  // from it is confirmed. Returns null if 2FA is already enabled
+  async beginSetup(
+    userId: ObjectIdLike,
+    account: string
+  ): Promise<TwoFactorSetup | null> {
+    const secret = generateTotpSecret();
+
+    const result = await User.updateOne(
+      { _id: userId, twoFactorEnabled: { $ne: true } },
+      { $set: { twoFactorPendingSecret: secret } }
+    );
+
+    if (result.matchedCount === 0) {
+      return null;
+    }
+
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri(config.twoFactor.issuer, account, secret),
+    };
+  }
+
+  // Enable 2FA with a code from the pending secret. Returns the recovery
+  // codes, which are shown once and only stored hashed, or null if there is
+  // no pending setup or the code is wrong
+  async confirmSetup(
+    userId: ObjectIdLike,
+    code: unknown
+  ): Promise<string[] | null> {
+    const user = await User.findById(userId).select(
+      "+twoFactorPendingSecret twoFactorEnabled"
+    );
+
+    if (!user || user.twoFactorEnabled || !user.twoFactorPendingSecret) {
+      return null;
+    }
+
+    const pendingSecret = user.twoFactorPendingSecret;
+    const step =
+      typeof code === "string" ? verifyTotp(pendingSecret, code) : null;
+
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = Array.from(
+      { length: RECOVERY_CODE_COUNT },
+      generateRecoveryCode
+    );
+
+    // Conditional on the same pending secret, in case setup was restarted
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        twoFactorEnabled: { $ne: true },
+        twoFactorPendingSecret: pendingSecret,
+      },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: pendingSecret,
+          twoFactorPendingSecret: null,
+          twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+            hashRecoveryCode(normalizeCode(recoveryCode))
+          ),
+          twoFactorLastUsedStep: step,
+        },
+      }
+    );
+
+    return result.modifiedCount === 1 ? recoveryCodes : null;
+  }
+
+  // Check a TOTP code or a recovery code. Each works once: a TOTP code's
+  // time step must be later than the last accepted one, and a recovery code
+  // is removed as it is accepted. Returns how the user proved themselves,
+  // or null
+  async verifyCode(
+    userId: ObjectIdLike,
+    code: unknown
+  ): Promise<TwoFactorMethod | null> {
+    if (typeof code !== "string" || !code) {
+      return null;
+    }
+
+    const normalized = normalizeCode(code);
+
+    if (/^\d{6}$/.test(normalized)) {
+      const user = await User.findById(userId).select(
+        "+twoFactorSecret twoFactorEnabled"
+      );
+
+      if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+        return null;
+      }
+
+      const step = verifyTotp(user.twoFactorSecret, normalized);
+      if (step === null) {
+        return null;
+      }
+
+      const result = await User.updateOne(
+        {
+          _id: userId,
+          twoFactorEnabled: true,
+          $or: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { $lt: step } },
+          ],
+        },
+        { $set: { twoFactorLastUsedStep: step } }
+      );
+
+      return result.modifiedCount === 1 ? "totp" : null;
+    }
+
+    const hash = hashRecoveryCode(normalized);
+    const result = await User.updateOne(
+      { _id: userId, twoFactorEnabled: true, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } }
+    );
+
+    return result.modifiedCount === 1 ? "recovery_code" : null;
+  }
+
+  async disable(userId: ObjectIdLike): Promise<void> {
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorPendingSecret: null,
+          twoFactorRecoveryCodes: [],
+          twoFactorLastUsedStep: null,
+        },
+      }
+    );
+  }
+
+  createChallenge(userId: ObjectIdLike, login: string): string {
+    return signWithCurrentKey(
+      { id: userId.toString(), login, purpose: CHALLENGE_PURPOSE },
+      config.twoFactor.challengeTtl
+    );
+  }
+
+  // Returns null for anything but an unexpired challenge token; access
+  // tokens are signed with the same keys but carry no purpose
+  verifyChallenge(token: unknown): TwoFactorChallenge | null {
+    if (typeof token !== "string" || !token) {
+      return null;
+    }
+
+    try {
+      const decoded = verifyWithAcceptedKeys<{
+        id?: string;
+        login?: string;
+        purpose?: string;
+      }>(token);
+
+      if (decoded.purpose !== CHALLENGE_PURPOSE || !decoded.id) {
+        return null;
+      }
+
+      return { userId: decoded.id, login: decoded.login || "" };
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
+export default twoFactorService;
@@ -0,0 +1,436 @@
+import { Server as SocketIOServer } from "socket.io";
+import mongoose from "mongoose";
+import User from "../models/User";
+import Room, { RoomStatus } from "../models/Room";
+import Message from "../models/Message";
+import { config } from "../config/env";
+import { loggerHelpers } from "../utils/logger";
+import cacheService from "../services/cache";
+import roomMembership from "../services/roomMembership";
+import messagingService from "../services/messaging";
+import sessionService from "../services/sessions";
+import {
+  threadChannel,
+  isThreadChannel,
+  sessionChannel,
+  isSessionChannel,
+} from "../utils/channels";
+import { sanitizeString } from "../middleware/security";
+import {
+  hasOtherConnection,
+  recordRoomJoin,
+  recordRoomLeave,
+  listRoomPresence,
+} from "./presence";
+import { TypingIndicators } from "./typing";
+
+const isProduction = config.isProduction;
+
+// Register socket authentication and event handlers on a Socket.IO server.
+// Kept separate from index.ts so tests can run the handlers on their own server
+export const registerSocketHandlers = (io: SocketIOServer): void => {
+  const typing = new TypingIndicators(io);
+
+  // Socket.IO connection handling with enhanced performance
+  io.use(async (socket, next) => {
+    try {
+      const token = socket.handshake.auth.token;
+      if (!token) {
+        return next(new Error("Authentication error"));
+      }
+
+      // Same checks as the HTTP routes, including session revocation
+      const verified = await sessionService.verifyAccessToken(token);
+      if (!verified.ok) {
+        return next(
+          new Error(
+            verified.reason === "revoked"
+              ? "Session revoked"
+              : "Authentication error"
+          )
+        );
+      }
+
+      const user = await User.findById(verified.userId);
+
+      if (!user) {
+        return next(new Error("User not found"));
+      }
+
+      // Associate socket with user ID for direct messaging
+      socket.join(user._id.toString());
+
+      // And with its session, so revoking the session disconnects it
+      socket.join(sessionChannel(verified.sessionId));
+      socket.data.sessionId = verified.sessionId;
+
+      // Store user data in socket for later use
+      (socket as any).user = {
+        id: user._id,
+        username: user.username,
+      };
+
+      // Same data where the adapter can see it, for presence rosters
+      socket.data.user = {
+        id: user._id.toString(),
+        username: user.username,
+      };
+
+      // Track this connection in the user's online presence
+      await cacheService.addOnlineSocket(user._id.toString(), socket.id);
+
+      loggerHelpers.logSocketEvent(
+        "user_connected",
+        socket.id,
+        user._id.toString()
+      );
+
+      next();
+    } catch (error) {
+      loggerHelpers.logError(error as Error, { operation: "socket_auth" });
+      next(new Error("Authentication error"));
+    }
+  });
+
+  io.on("connection", (socket) => {
+    console.log("User connected:", socket.id);
+
+    // Only log socket handshake in development mode
+    if (!isProduction) {
+      console.log("Socket handshake:", socket.handshake.address);
+    }
+
+    // Join a room with enhanced tracking. Takes a room id, or
+    // { roomId, lastMessageId?, lastSeenAt? } from a reconnecting client that
+    // wants the messages it missed
+    socket.on("join_room", async (payload, ack) => {
+      const respond = typeof ack === "function" ? ack : () => {};
+      const options =
+        payload && typeof payload === "object" ? payload : { roomId: payload };
+      const roomId = options.roomId;
+
+      try {
+        // Same rules as viewing the room over HTTP: private rooms are only
+        // open to their creator, participants and invited users
+        const room =
+          typeof roomId === "string" && mongoose.Types.ObjectId.isValid(roomId)
+            ? await Room.findById(roomId)
+            : null;
+
+        if (!room) {
+          respond({
+            ok: false,
+            reason: "not_found",
+            message: "Room not found",
+          });
+          return;
+        }
+
+        if (
+          room.status === RoomStatus.CLOSED ||
+          room.status === RoomStatus.CANCELLED
+        ) {
+          respond({
+            ok: false,
+            reason: "room_closed",
+            message: `This room is ${room.status}`,
+          });
+          return;
+        }
+
+        if (!roomMembership.canViewRoom(room, (socket as any).user.id)) {
+          loggerHelpers.logSecurityEvent(
+            "socket_join_denied",
+            socket.handshake.address,
+            (socket as any).user.id.toString(),
+            { roomId }
+          );
+          respond({
+            ok: false,
+            reason: "forbidden",
+            message: "You do not have access to this room",
+          });
+          return;
+        }
+
+        // A socket can follow several rooms at once, so joining one does not
+        // leave the others. The room only hears about the user's first
+        // connection to it
+        const userId = (socket as any).user.id.toString();
+        const alreadyPresent =
+          socket.rooms.has(roomId) ||
+          (await hasOtherConnection(io, userId, socket.id, roomId));
+
+        socket.join(roomId);
+        recordRoomJoin(socket, roomId);
+
+        if (!alreadyPresent) {
+          // Track user in room cache
+          await cacheService.addRoomParticipant(roomId, userId);
+
+          // Notify other users in the room
+          socket.to(roomId).emit("user_joined_room", {
+            userId: (socket as any).user.id,
+            username: (socket as any).user.username,
+            timestamp: new Date().toISOString(),
+          });
+
+          loggerHelpers.logSocketEvent(
+            "user_joined_room",
+            socket.id,
+            userId,
+            roomId
+          );
+
+          console.log(
+            `User ${(socket as any).user.username} joined room ${roomId}`
+          );
+        }
+
+        // Replay what a reconnecting client missed. The socket has already
+        // joined, so anything sent from here on arrives live as well; clients
+        // drop duplicates by message id
+        const resync = await messagingService.getMissedMessages(roomId, {
+          lastMessageId: options.lastMessageId,
+          lastSeenAt: options.lastSeenAt,
+        });
+
+        respond(resync ? { ok: true, roomId, resync } : { ok: true, roomId });
+
+        // Let the joining socket know who is already here
+        socket.emit("presence_snapshot", {
+          roomId,
+          users: await listRoomPresence(io, roomId),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        loggerHelpers.logError(error as Error, {
+          operation: "join_room",
+          socketId: socket.id,
+          roomId,
+        });
+        respond({
+          ok: false,
+          reason: "internal_error",
+          message: "Failed to join room",
+        });
+      }
+    });
+
+    // Leave a room
+    socket.on("leave_room", async (roomId) => {
+      try {
+        const userId = (socket as any).user.id.toString();
+
+        // Only room subscriptions can be left. The socket's own channel and
+        // the user and session channels stay for the life of the connection;
+        // leaving the session channel would keep the socket alive after the
+        // session is revoked
+        if (
+          typeof roomId !== "string" ||
+          !mongoose.Types.ObjectId.isValid(roomId) ||
+          isSessionChannel(roomId) ||
+          isThreadChannel(roomId) ||
+          roomId === socket.id ||
+          roomId === userId ||
+          !socket.rooms.has(roomId)
+        ) {
+          return;
+        }
+
+        socket.leave(roomId);
+        recordRoomLeave(socket, roomId);
+
+        // The user is still in the room from another tab
+        if (await hasOtherConnection(io, userId, socket.id, roomId)) {
+          return;
+        }
+
+        typing.stop(roomId, userId);
+
+        // Remove user from room cache
+        await cacheService.removeRoomParticipant(roomId, userId);
+
+        // Notify other users in the room
+        socket.to(roomId).emit("user_left_room", {
+          userId: (socket as any).user.id,
+          username: (socket as any).user.username,
+          timestamp: new Date().toISOString(),
+        });
+
+        loggerHelpers.logSocketEvent(
+          "user_left_room",
+          socket.id,
+          userId,
+          roomId
+        );
+
+        console.log(
+          `User ${(socket as any).user.username} left room ${roomId}`
+        );
+      } catch (error) {
+        loggerHelpers.logError(error as Error, {
+          operation: "leave_room",
+          socketId: socket.id,
+          roomId,
+        });
+      }
+    });
+
+    // Send a message over the socket. Same rules as POST
+    // /api/rooms/:roomId/messages; the ack gets the saved message or an error
+    socket.on("send_message", async (data, ack) => {
+      const respond = typeof ack === "function" ? ack : () => {};
+
+      try {
+        const user = await User.findById((socket as any).user.id);
+        if (!user) {
+          respond({
+            ok: false,
+            error: { code: "unauthorized", message: "User not found" },
+          });
+          return;
+        }
+
+        const result = await messagingService.sendMessage({
+          roomId: String(data?.roomId),
+          sender: user,
+          content:
+            typeof data?.content === "string"
+              ? sanitizeString(data.content)
+              : data?.content,
+          parentMessageId: data?.parentMessageId,
+          clientMessageId: data?.clientMessageId,
+        });
+
+        if (!result.ok) {
+          respond({
+            ok: false,
+            error: { code: result.code, message: result.message },
+          });
+          return;
+        }
+
+        // Sending ends the user's typing indicator
+        typing.stop(String(data?.roomId), user._id.toString());
+
+        respond({
+          ok: true,
+          message: result.message,
+          duplicate: result.duplicate,
+        });
+      } catch (error) {
+        loggerHelpers.logError(error as Error, {
+          operation: "send_message",
+          socketId: socket.id,
+          roomId: data?.roomId,
+        });
+        respond({
+          ok: false,
+          error: { code: "internal_error", message: "Failed to send message" },
+        });
+      }
+    });
+
+    // Typing indicators, for rooms this socket has joined
+    socket.on("typing_start", (roomId) => {
+      if (typeof roomId === "string" && socket.rooms.has(roomId)) {
+        typing.start(
+          roomId,
+          (socket as any).user.id.toString(),
+          (socket as any).user.username
+        );
+      }
+    });
+
+    socket.on("typing_stop", (roomId) => {
+      if (typeof roomId === "string") {
+        typing.stop(roomId, (socket as any).user.id.toString());
+      }
+    });
+
+    // Open a message thread to receive its replies
+    socket.on("join_thread", async (messageId) => {
+      try {
+        if (!mongoose.Types.ObjectId.isValid(messageId)) {
+          return;
+        }
+
+        const parent = await Message.findById(messageId).select("room");
+        const room = parent ? await Room.findById(parent.room) : null;
+
+        if (
+          !room ||
+          !roomMembership.canViewRoom(room, (socket as any).user.id)
+        ) {
+          return;
+        }
+
+        socket.join(threadChannel(messageId));
+      } catch (error) {
+        loggerHelpers.logError(error as Error, {
+          operation: "join_thread",
+          socketId: socket.id,
+          messageId,
+        });
+      }
+    });
+
+    // Close a message thread
+    socket.on("leave_thread", (messageId) => {
+      socket.leave(threadChannel(String(messageId)));
+    });
+
+    // Handle disconnection. Runs on "disconnecting", while socket.rooms
+    // still lists the rooms the socket was in
+    socket.on("disconnecting", async () => {
+      const user = (socket as any).user;
+      const userId = user?.id?.toString();
+      const rooms = Array.from(socket.rooms).filter(
+        (channel) =>
+          channel !== socket.id &&
+          channel !== userId &&
+          !isThreadChannel(channel) &&
+          !isSessionChannel(channel)
+      );
+
+      try {
+        if (!userId) {
+          return;
+        }
+
+        // Leave each room the user is no longer in from another tab
+        for (const roomId of rooms) {
+          if (await hasOtherConnection(io, userId, socket.id, roomId)) {
+            continue;
+          }
+
+          typing.stop(roomId, userId);
+          await cacheService.removeRoomParticipant(roomId, userId);
+          io.to(roomId).emit("user_left_room", {
+            userId: user.id,
+            username: user.username,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        // Remove this connection from the user's online presence; the user
+        // is offline once their last connection closes
+        await cacheService.removeOnlineSocket(userId, socket.id);
+
+        if (!(await hasOtherConnection(io, userId, socket.id))) {
+          loggerHelpers.logSocketEvent("user_offline", socket.id, userId);
+        }
+
+        loggerHelpers.logSocketEvent("user_disconnected", socket.id, userId);
+
+        console.log("User disconnected:", socket.id);
+      } catch (error) {
+        loggerHelpers.logError(error as Error, {
+          operation: "disconnect",
+          socketId: socket.id,
+        });
+      }
+    });
+  });
+};
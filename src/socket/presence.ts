@@ -0,0 +1,94 @@
+import { Server as SocketIOServer, Socket } from "socket.io";
+import cacheService from "../services/cache";
+
+// Presence helpers. A user may have several live sockets (tabs, devices), so
+// presence is worked out from all of them rather than the one that changed.
+// Every socket is in its user's channel, which makes the user's sockets
+// easy to find through the adapter. Sockets carry their user and room join
+// times in socket.data, which the adapter can read on any node.
+
+export interface RoomPresenceEntry {
+  userId: string;
+  username: string;
+  joinedAt: string; // When the user's earliest live connection joined
+  connections: number;
+}
+
+// Whether the user has a live socket other than exceptSocketId, optionally
+// one subscribed to roomId
+export const hasOtherConnection = async (
+  io: SocketIOServer,
+  userId: string,
+  exceptSocketId: string,
+  roomId?: string
+): Promise<boolean> => {
+  const sockets = await io.in(userId).fetchSockets();
+
+  return sockets.some(
+    (socket) =>
+      socket.id !== exceptSocketId && (!roomId || socket.rooms.has(roomId))
+  );
+};
+
+// Note when a socket joined a room. A repeat join keeps the first time
+export const recordRoomJoin = (socket: Socket, roomId: string): void => {
+  const joinedRooms = socket.data.joinedRooms || {};
+  if (!joinedRooms[roomId]) {
+    joinedRooms[roomId] = new Date().toISOString();
+  }
+  socket.data.joinedRooms = joinedRooms;
+};
+
+export const recordRoomLeave = (socket: Socket, roomId: string): void => {
+  if (socket.data.joinedRooms) {
+    delete socket.data.joinedRooms[roomId];
+  }
+};
+
+// Who is connected to a room, earliest first. The roster is built from the
+// live sockets rather than the cache, and the cached participant list is
+// rewritten from it, so users left behind by a server that went down
+// without disconnecting them drop out on the next read
+export const listRoomPresence = async (
+  io: SocketIOServer,
+  roomId: string
+): Promise<RoomPresenceEntry[]> => {
+  const sockets = await io.in(roomId).fetchSockets();
+  const byUser = new Map<string, RoomPresenceEntry>();
+
+  for (const socket of sockets) {
+    const user = socket.data.user;
+    if (!user) {
+      continue;
+    }
+
+    const joinedAt: string =
+      socket.data.joinedRooms?.[roomId] || new Date().toISOString();
+    const entry = byUser.get(user.id);
+
+    if (!entry) {
+      byUser.set(user.id, {
+        userId: user.id,
+        username: user.username,
+        joinedAt,
+        connections: 1,
+      });
+    } else {
+      entry.connections++;
+      if (joinedAt < entry.joinedAt) {
+        entry.joinedAt = joinedAt;
+      }
+    }
+  }
+
+  const users = Array.from(byUser.values()).sort((a, b) =>
+    a.joinedAt.localeCompare(b.joinedAt)
+  );
+
+  await cacheService.setRoomParticipants(
+    roomId,
+    users.map((user) => user.userId)
+  );
+
+  return users;
+};
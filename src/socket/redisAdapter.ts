@@ -0,0 +1,38 @@
+import { Server as SocketIOServer } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
+import Redis, { RedisOptions } from "ioredis";
+import { redisConfig } from "../services/cache";
+import { loggerHelpers } from "../utils/logger";
+
+// Connect a Socket.IO server to the other server instances through Redis
+// pub/sub. Emits, room joins seen by fetchSockets (and so presence) and
+// disconnects then reach sockets on every node. Returns a function that
+// closes the Redis connections
+export const attachRedisAdapter = async (
+  io: SocketIOServer,
+  options: RedisOptions = redisConfig
+): Promise<() => Promise<void>> => {
+  const pubClient = new Redis({ ...options, lazyConnect: true });
+  const subClient = pubClient.duplicate();
+
+  [pubClient, subClient].forEach((client) =>
+    client.on("error", (error) =>
+      loggerHelpers.logError(error, { service: "socket_redis_adapter" })
+    )
+  );
+
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+
+  io.adapter(createAdapter(pubClient, subClient));
+
+  loggerHelpers.logPerformance(
+    "socket_redis_adapter_attached",
+    Date.now(),
+    "timestamp",
+    { host: options.host, port: options.port }
+  );
+
+  return async () => {
+    await Promise.all([pubClient.quit(), subClient.quit()]);
+  };
+};
@@ -0,0 +1,80 @@
+import { Server as SocketIOServer } from "socket.io";
+import { config } from "../config/env";
+
+// Typing configuration
+const TYPING_CONFIG = {
+  // A user's typing_start is rebroadcast at most once per interval
+  throttleMs: config.realtime.typingThrottleMs,
+  // Typing stops on its own when the client goes quiet for this long
+  expiryMs: config.realtime.typingExpiryMs,
+};
+
+type TypingState = {
+  timer: NodeJS.Timeout;
+  lastBroadcastAt: number;
+  username: string;
+};
+
+// Typing indicators for one server. Clients repeat typing_start while the
+// user types; the room hears typing_start once per throttle interval and
+// typing_stop when the user stops, sends, leaves or goes quiet. Events are
+// sent to everyone in the room except the typing user's own connections
+export class TypingIndicators {
+  private typing = new Map<string, TypingState>(); // `${roomId}:${userId}` -> state
+
+  constructor(private io: SocketIOServer) {}
+
+  start(roomId: string, userId: string, username: string): void {
+    const key = `${roomId}:${userId}`;
+    const existing = this.typing.get(key);
+    const now = Date.now();
+
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const shouldBroadcast =
+      !existing || now - existing.lastBroadcastAt >= TYPING_CONFIG.throttleMs;
+
+    const timer = setTimeout(
+      () => this.stop(roomId, userId),
+      TYPING_CONFIG.expiryMs
+    );
+
+    // Do not hold the process open for an expiring indicator
+    timer.unref();
+
+    this.typing.set(key, {
+      timer,
+      lastBroadcastAt: shouldBroadcast ? now : existing!.lastBroadcastAt,
+      username,
+    });
+
+    if (shouldBroadcast) {
+      this.io.to(roomId).except(userId).emit("typing_start", {
+        roomId,
+        userId,
+        username,
+        expiresInMs: TYPING_CONFIG.expiryMs,
+      });
+    }
+  }
+
+  stop(roomId: string, userId: string): void {
+    const key = `${roomId}:${userId}`;
+    const existing = this.typing.get(key);
+
+    if (!existing) {
+      return;
+    }
+
+    clearTimeout(existing.timer);
+    this.typing.delete(key);
+
+    this.io.to(roomId).except(userId).emit("typing_stop", {
+      roomId,
+      userId,
+      username: existing.username,
+    });
+  }
+}
@@ -0,0 +1,15 @@
+// Socket.IO channel names. Room channels are the room id and user channels
+// the user id; threads get a prefix so they cannot collide with either
+export const threadChannel = (messageId: string): string =>
+  `thread:${messageId}`;
+
+export const isThreadChannel = (channel: string): boolean =>
+  channel.startsWith("thread:");
+
+// Every socket opened with a session's access token, so revoking the session
+// can disconnect them
+export const sessionChannel = (sessionId: string): string =>
+  `session:${sessionId}`;
+
+export const isSessionChannel = (channel: string): boolean =>
+  channel.startsWith("session:");
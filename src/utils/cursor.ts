@@ -0,0 +1,52 @@
+import mongoose from "mongoose";
+
+// Opaque pagination cursors for time-ordered collections. A cursor identifies
+// one document by (createdAt, _id); the _id breaks ties between documents
+// created in the same millisecond.
+// Encoded as base64url so it survives sanitizeInput, which escapes "/".
+
+export interface Cursor {
+  createdAt: Date;
+  id: mongoose.Types.ObjectId;
+}
+
+export const encodeCursor = (doc: {
+  createdAt: Date;
+  _id: mongoose.Types.ObjectId;
+}): string =>
+  Buffer.from(`${doc.createdAt.toISOString()}|${doc._id.toString()}`).toString(
+    "base64url"
+  );
+
+// Returns null if the value is not a cursor produced by encodeCursor
+export const decodeCursor = (value: string): Cursor | null => {
+  const [timestamp, id] = Buffer.from(value, "base64url")
+    .toString("utf8")
+    .split("|");
+  const createdAt = new Date(timestamp);
+
+  if (isNaN(createdAt.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  return { createdAt, id: new mongoose.Types.ObjectId(id) };
+};
+
+// Query conditions for documents strictly before or after a cursor, in
+// (createdAt, _id) order
+export const cursorCondition = (
+  cursor: Cursor,
+  direction: "before" | "after"
+): Record<string, any> => {
+  const op = direction === "before" ? "$lt" : "$gt";
+
+  return {
+    $or: [
+      { createdAt: { [op]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, _id: { [op]: cursor.id } },
+    ],
+  };
+};
+
+export const isValidCursor = (value: string): boolean =>
+  decodeCursor(value) !== null;
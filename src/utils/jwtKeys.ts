@@ -0,0 +1,31 @@
+import jwt from "jsonwebtoken";
+import { config } from "../config/env";
+
+// Sign with the current key, naming it in the "kid" header
+export const signWithCurrentKey = (
+  payload: object,
+  expiresIn: string
+): string =>
+  jwt.sign(payload, config.jwt.signingKey.secret, {
+    keyid: config.jwt.signingKey.id,
+    expiresIn: expiresIn as jwt.SignOptions["expiresIn"],
+  });
+
+// Find the key a token was signed with from its "kid" header. Tokens
+// without one predate key ids and are checked against every accepted key
+export const verifyWithAcceptedKeys = <T extends object>(token: string): T => {
+  const header = jwt.decode(token, { complete: true })?.header;
+  const keys = header?.kid
+    ? config.jwt.verificationKeys.filter((key) => key.id === header.kid)
+    : config.jwt.verificationKeys;
+
+  let lastError: unknown = new Error("No key for token");
+  for (const key of keys) {
+    try {
+      return jwt.verify(token, key.secret) as T;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
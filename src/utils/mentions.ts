@@ -0,0 +1,33 @@
+// @mention parsing for message content.
+// "@here" mentions everyone in the room and "@host" the room creator; any
+// other "@name" is a username, matched case-insensitively.
+
+export interface ParsedMentions {
+  usernames: string[]; // Lowercased, without the "@"
+  here: boolean;
+  host: boolean;
+}
+
+// Same character set as usernames. The mention must not be glued to a
+// preceding word, so email addresses are not picked up
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_@.-])@([a-zA-Z0-9_-]{3,30})\b/g;
+
+export const parseMentions = (content: string): ParsedMentions => {
+  const usernames = new Set<string>();
+  let here = false;
+  let host = false;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const name = match[2].toLowerCase();
+
+    if (name === "here") {
+      here = true;
+    } else if (name === "host") {
+      host = true;
+    } else {
+      usernames.add(name);
+    }
+  }
+
+  return { usernames: Array.from(usernames), here, host };
+};
@@ -0,0 +1,220 @@
+// RRULE-style recurrence expansion for room series.
+// All arithmetic is done in UTC, so occurrences keep the same UTC time of day.
+
+export enum RecurrenceFrequency {
+  DAILY = "daily",
+  WEEKLY = "weekly",
+  MONTHLY = "monthly",
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  byWeekday?: number[]; // Weekly only: 0 (Sunday) - 6 (Saturday)
+  until?: Date | null; // Last possible occurrence start (inclusive)
+  count?: number | null; // Total number of occurrences, counted before exceptions
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most occurrences a series can have, counted from its first occurrence.
+// Rules that would go past it are rejected rather than silently cut short
+export const MAX_OCCURRENCES = 10000;
+
+export class RecurrenceLimitError extends Error {
+  constructor() {
+    super(`Recurrence rules are limited to ${MAX_OCCURRENCES} occurrences`);
+    this.name = "RecurrenceLimitError";
+  }
+}
+
+// Validate a recurrence rule. Returns an error message, or null if it is valid
+export const validateRecurrenceRule = (rule: any): string | null => {
+  if (!rule || typeof rule !== "object") {
+    return "Recurrence rule is required";
+  }
+
+  if (!Object.values(RecurrenceFrequency).includes(rule.frequency)) {
+    return "Recurrence frequency must be daily, weekly or monthly";
+  }
+
+  if (
+    rule.interval !== undefined &&
+    (!Number.isInteger(rule.interval) || rule.interval < 1)
+  ) {
+    return "Recurrence interval must be a positive integer";
+  }
+
+  if (rule.byWeekday !== undefined) {
+    if (rule.frequency !== RecurrenceFrequency.WEEKLY) {
+      return "byWeekday is only supported for weekly recurrence";
+    }
+    if (
+      !Array.isArray(rule.byWeekday) ||
+      rule.byWeekday.length === 0 ||
+      rule.byWeekday.some(
+        (day: any) => !Number.isInteger(day) || day < 0 || day > 6
+      )
+    ) {
+      return "byWeekday must be a list of weekdays from 0 (Sunday) to 6 (Saturday)";
+    }
+  }
+
+  if (
+    rule.until !== undefined &&
+    rule.until !== null &&
+    isNaN(new Date(rule.until).getTime())
+  ) {
+    return "Recurrence end date must be a valid date";
+  }
+
+  if (
+    rule.count !== undefined &&
+    rule.count !== null &&
+    (!Number.isInteger(rule.count) || rule.count < 1)
+  ) {
+    return "Recurrence count must be a positive integer";
+  }
+
+  if (rule.count && rule.count > MAX_OCCURRENCES) {
+    return new RecurrenceLimitError().message;
+  }
+
+  return null;
+};
+
+// Yield every occurrence start of a rule in chronological order, ignoring
+// until/count. Occurrences before firstStart are skipped
+function* candidateStarts(
+  rule: RecurrenceRule,
+  firstStart: Date
+): Generator<Date> {
+  const interval = rule.interval || 1;
+
+  if (rule.frequency === RecurrenceFrequency.DAILY) {
+    for (let k = 0; ; k++) {
+      yield new Date(firstStart.getTime() + k * interval * DAY_MS);
+    }
+  }
+
+  if (rule.frequency === RecurrenceFrequency.WEEKLY) {
+    const weekdays = Array.from(
+      new Set(
+        rule.byWeekday && rule.byWeekday.length > 0
+          ? rule.byWeekday
+          : [firstStart.getUTCDay()]
+      )
+    ).sort((a, b) => a - b);
+
+    // Sunday of the first week, at the first occurrence's time of day
+    const firstWeekStart =
+      firstStart.getTime() - firstStart.getUTCDay() * DAY_MS;
+
+    for (let week = 0; ; week++) {
+      const weekStart = firstWeekStart + week * interval * 7 * DAY_MS;
+      for (const weekday of weekdays) {
+        const start = new Date(weekStart + weekday * DAY_MS);
+        if (start >= firstStart) {
+          yield start;
+        }
+      }
+    }
+  }
+
+  if (rule.frequency === RecurrenceFrequency.MONTHLY) {
+    const dayOfMonth = firstStart.getUTCDate();
+
+    for (let k = 0; ; k++) {
+      const start = new Date(firstStart.getTime());
+      start.setUTCDate(1);
+      start.setUTCMonth(firstStart.getUTCMonth() + k * interval);
+      start.setUTCDate(dayOfMonth);
+
+      // Months without that day (e.g. the 31st) are skipped, as in RRULE
+      if (start.getUTCDate() === dayOfMonth) {
+        yield start;
+      }
+    }
+  }
+}
+
+// Expand a rule into occurrence start times that fall in [windowStart, windowEnd].
+// Exceptions are matched on exact start time. Throws a RecurrenceLimitError
+// when reaching windowEnd takes more than MAX_OCCURRENCES occurrences
+export const getOccurrences = (
+  rule: RecurrenceRule,
+  firstStart: Date,
+  windowStart: Date,
+  windowEnd: Date,
+  exceptions: Date[] = []
+): Date[] => {
+  const excluded = new Set(exceptions.map((date) => new Date(date).getTime()));
+  const until = rule.until ? new Date(rule.until) : null;
+  const occurrences: Date[] = [];
+
+  let generated = 0;
+
+  for (const start of candidateStarts(rule, firstStart)) {
+    if (start > windowEnd) break;
+    if (until && start > until) break;
+    if (rule.count && generated >= rule.count) break;
+
+    if (++generated > MAX_OCCURRENCES) {
+      throw new RecurrenceLimitError();
+    }
+
+    if (start >= windowStart && !excluded.has(start.getTime())) {
+      occurrences.push(start);
+    }
+  }
+
+  return occurrences;
+};
+
+// Validate that a rule stays within MAX_OCCURRENCES. Rules without an end
+// are checked up to horizonEnd, the furthest occurrences are generated for.
+// Returns an error message, or null if it is within the limit
+export const validateOccurrenceLimit = (
+  rule: RecurrenceRule,
+  firstStart: Date,
+  horizonEnd: Date
+): string | null => {
+  const lastStart =
+    rule.until || rule.count
+      ? new Date(8640000000000000) // Max date: the rule's own end applies
+      : horizonEnd;
+
+  try {
+    getOccurrences(rule, firstStart, lastStart, lastStart);
+  } catch (error) {
+    if (error instanceof RecurrenceLimitError) {
+      return error.message;
+    }
+    throw error;
+  }
+
+  return null;
+};
+
+// Whether a rule can still produce occurrences after the given date
+export const hasOccurrencesAfter = (
+  rule: RecurrenceRule,
+  firstStart: Date,
+  after: Date
+): boolean => {
+  if (rule.until && new Date(rule.until) <= after) {
+    return false;
+  }
+
+  if (rule.count) {
+    const remaining = getOccurrences(
+      rule,
+      firstStart,
+      new Date(after.getTime() + 1),
+      new Date(8640000000000000) // Max date: only count limits the search
+    );
+    return remaining.length > 0;
+  }
+
+  return true;
+};
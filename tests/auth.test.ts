@@ -1,8 +1,13 @@
 import request from "supertest";
 import express from "express";
+import jwt from "jsonwebtoken";
 import cors from "cors";
 import authRoutes from "../src/routes/auth";
 import User from "../src/models/User";
+import AccountToken from "../src/models/AccountToken";
+import mailer, { MemoryTransport } from "../src/services/mailer";
+import { recordLoginAttempt } from "../src/middleware/security";
+import { generateTotp, timeStep } from "../src/utils/totp";
 import {
   createTestUser,
   generateTestToken,
@@ -228,7 +233,7 @@ describe("Authentication Endpoints", () => {
         username: "profileuser",
         email: "profile@example.com",
       });
-      token = generateTestToken(testUser._id.toString());
+      token = await generateTestToken(testUser._id.toString());
     });
 
     it("should get current user profile with valid token", async () => {
@@ -267,7 +272,7 @@ describe("Authentication Endpoints", () => {
 
     it("should reject request with expired token", async () => {
       // Create an expired token
-      const expiredToken = generateTestToken(testUser._id.toString());
+      const expiredToken = await generateTestToken(testUser._id.toString());
       // Mock Date to simulate token expiration
       const originalNow = Date.now;
       Date.now = () => originalNow() + 8 * 24 * 60 * 60 * 1000; // 8 days later
@@ -297,6 +302,495 @@ describe("Authentication Endpoints", () => {
     });
   });
 
+  describe("Sessions", () => {
+    let session: { token: string; refreshToken: string };
+
+    beforeEach(async () => {
+      await createTestUser({
+        username: "sessionuser",
+        email: "session@example.com",
+        password: "SessionPassword123!",
+      });
+
+      const response = await request(app)
+        .post("/api/auth/login")
+        .send({ login: "sessionuser", password: "SessionPassword123!" })
+        .expect(200);
+
+      session = response.body;
+      expect(session.refreshToken).toBeDefined();
+    });
+
+    it("should rotate the refresh token on refresh", async () => {
+      const response = await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: session.refreshToken })
+        .expect(200);
+
+      expect(response.body.token).toBeDefined();
+      expect(response.body.refreshToken).not.toBe(session.refreshToken);
+
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(response.body.token))
+        .expect(200);
+    });
+
+    it("should end the session when a rotated refresh token is replayed", async () => {
+      const rotated = await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: session.refreshToken })
+        .expect(200);
+
+      const replay = await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: session.refreshToken })
+        .expect(401);
+      expect(replay.body.reason).toBe("reused");
+
+      // The legitimate holder's tokens stop working too
+      await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: rotated.body.refreshToken })
+        .expect(401);
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(rotated.body.token))
+        .expect(401);
+    });
+
+    it("should reject the access and refresh tokens after logout", async () => {
+      await request(app)
+        .post("/api/auth/logout")
+        .set(getAuthHeaders(session.token))
+        .expect(200);
+
+      const response = await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(session.token))
+        .expect(401);
+      expect(response.body.message).toContain("session has ended");
+
+      await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: session.refreshToken })
+        .expect(401);
+    });
+
+    it("should accept access tokens signed with a previous secret", async () => {
+      const { sid, id } = jwt.decode(session.token) as any;
+      const sign = (secret: string) =>
+        jwt.sign({ id, sid }, secret, { expiresIn: "15m" });
+
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(sign("previous_test_jwt_secret_key")))
+        .expect(200);
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(sign("not_an_accepted_secret")))
+        .expect(401);
+    });
+
+    it("should end every session on logout-all", async () => {
+      const otherDevice = await request(app)
+        .post("/api/auth/login")
+        .send({ login: "sessionuser", password: "SessionPassword123!" })
+        .expect(200);
+
+      const response = await request(app)
+        .post("/api/auth/logout-all")
+        .set(getAuthHeaders(session.token))
+        .expect(200);
+      expect(response.body.sessionsRevoked).toBe(2);
+
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(otherDevice.body.token))
+        .expect(401);
+    });
+  });
+
+  describe("Passwords", () => {
+    let outbox: MemoryTransport;
+    let session: { token: string; refreshToken: string };
+
+    const login = (password: string) =>
+      request(app)
+        .post("/api/auth/login")
+        .send({ login: "passworduser", password });
+
+    // Request a reset and pull the token out of the mailed link
+    const requestResetToken = async (): Promise<string> => {
+      await request(app)
+        .post("/api/auth/password/forgot")
+        .send({ email: "password@example.com" })
+        .expect(200);
+
+      const mail = outbox.outbox[outbox.outbox.length - 1];
+      expect(mail.to).toBe("password@example.com");
+      return mail.text.match(/token=([\w-]+)/)![1];
+    };
+
+    beforeEach(async () => {
+      outbox = new MemoryTransport();
+      mailer.setTransport(outbox);
+
+      await createTestUser({
+        username: "passworduser",
+        email: "password@example.com",
+        password: "OldPassword123!",
+      });
+
+      session = (await login("OldPassword123!").expect(200)).body;
+    });
+
+    it("should give the same answer for unknown emails without sending mail", async () => {
+      const response = await request(app)
+        .post("/api/auth/password/forgot")
+        .send({ email: "nobody@example.com" })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(outbox.outbox).toHaveLength(0);
+    });
+
+    it("should reset the password once per token and end every session", async () => {
+      const token = await requestResetToken();
+
+      await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token, password: "NewPassword123!" })
+        .expect(200);
+
+      await login("NewPassword123!").expect(200);
+
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(session.token))
+        .expect(401);
+
+      // The token is spent
+      await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token, password: "OtherPassword123!" })
+        .expect(400);
+    });
+
+    it("should only accept the latest reset token", async () => {
+      const first = await requestResetToken();
+      const second = await requestResetToken();
+
+      await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token: first, password: "NewPassword123!" })
+        .expect(400);
+      await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token: second, password: "NewPassword123!" })
+        .expect(200);
+    });
+
+    it("should reject expired reset tokens", async () => {
+      const token = await requestResetToken();
+      await AccountToken.updateMany(
+        {},
+        { $set: { expiresAt: new Date(Date.now() - 1000) } }
+      );
+
+      await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token, password: "NewPassword123!" })
+        .expect(400);
+    });
+
+    it("should store only a hash of the reset token", async () => {
+      const token = await requestResetToken();
+
+      const stored = await AccountToken.findOne({});
+      expect(stored!.tokenHash).not.toBe(token);
+      expect(await AccountToken.findOne({ tokenHash: token })).toBeNull();
+    });
+
+    it("should reject a weak new password", async () => {
+      const token = await requestResetToken();
+
+      await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token, password: "weak" })
+        .expect(400);
+    });
+
+    it("should change the password and end the other sessions", async () => {
+      const otherDevice = (await login("OldPassword123!").expect(200)).body;
+
+      const response = await request(app)
+        .post("/api/auth/password/change")
+        .set(getAuthHeaders(session.token))
+        .send({
+          currentPassword: "OldPassword123!",
+          newPassword: "NewPassword123!",
+        })
+        .expect(200);
+      expect(response.body.sessionsRevoked).toBe(1);
+
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(session.token))
+        .expect(200);
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(otherDevice.token))
+        .expect(401);
+
+      await login("NewPassword123!").expect(200);
+      expect(outbox.outbox[0].subject).toContain("password was changed");
+    });
+
+    it("should reject a password change with the wrong current password", async () => {
+      await request(app)
+        .post("/api/auth/password/change")
+        .set(getAuthHeaders(session.token))
+        .send({
+          currentPassword: "WrongPassword123!",
+          newPassword: "NewPassword123!",
+        })
+        .expect(401);
+
+      await login("OldPassword123!").expect(200);
+    });
+  });
+
+  describe("Email verification", () => {
+    let outbox: MemoryTransport;
+
+    const register = () =>
+      request(app).post("/api/auth/register").send({
+        username: "newcomer",
+        email: "newcomer@example.com",
+        password: "NewcomerPassword123!",
+      });
+
+    const lastToken = (): string =>
+      outbox.outbox[outbox.outbox.length - 1].text.match(/token=([\w-]+)/)![1];
+
+    beforeEach(() => {
+      outbox = new MemoryTransport();
+      mailer.setTransport(outbox);
+    });
+
+    it("should register unverified and verify with the mailed token", async () => {
+      const registered = await register().expect(201);
+      expect(registered.body.user.emailVerified).toBe(false);
+      expect(outbox.outbox).toHaveLength(1);
+      expect(outbox.outbox[0].to).toBe("newcomer@example.com");
+
+      const token = lastToken();
+      await request(app)
+        .post("/api/auth/email/verify")
+        .send({ token })
+        .expect(200);
+
+      const me = await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(registered.body.token))
+        .expect(200);
+      expect(me.body.user.emailVerified).toBe(true);
+
+      // The token is spent
+      await request(app)
+        .post("/api/auth/email/verify")
+        .send({ token })
+        .expect(400);
+    });
+
+    it("should throttle resending the verification email", async () => {
+      const registered = await register().expect(201);
+
+      const throttled = await request(app)
+        .post("/api/auth/email/resend")
+        .set(getAuthHeaders(registered.body.token))
+        .expect(429);
+      expect(throttled.body.retryAfterSeconds).toBeGreaterThan(0);
+      expect(outbox.outbox).toHaveLength(1);
+
+      // Once the cooldown has passed a new link goes out and replaces the old one
+      const firstToken = lastToken();
+      await User.updateOne(
+        { username: "newcomer" },
+        { $set: { emailVerificationSentAt: new Date(0) } }
+      );
+
+      await request(app)
+        .post("/api/auth/email/resend")
+        .set(getAuthHeaders(registered.body.token))
+        .expect(200);
+      expect(outbox.outbox).toHaveLength(2);
+
+      await request(app)
+        .post("/api/auth/email/verify")
+        .send({ token: firstToken })
+        .expect(400);
+      await request(app)
+        .post("/api/auth/email/verify")
+        .send({ token: lastToken() })
+        .expect(200);
+    });
+
+    it("should not resend to a verified user", async () => {
+      const user = await createTestUser({
+        username: "verified",
+        email: "verified@example.com",
+      });
+      const token = await generateTestToken(user._id.toString());
+
+      await request(app)
+        .post("/api/auth/email/resend")
+        .set(getAuthHeaders(token))
+        .expect(400);
+      expect(outbox.outbox).toHaveLength(0);
+    });
+  });
+
+  describe("Two-factor authentication", () => {
+    let token: string;
+    let secret: string;
+    let recoveryCodes: string[];
+
+    const loginStep = () =>
+      request(app)
+        .post("/api/auth/login")
+        .send({ login: "hostuser", password: "HostPassword123!" })
+        .expect(200);
+
+    // A code from a later step than any used so far, so it is not refused
+    // as a replay
+    let stepOffset = 0;
+    const nextCode = () => generateTotp(secret, timeStep() + ++stepOffset);
+
+    beforeEach(async () => {
+      const user = await createTestUser({
+        username: "hostuser",
+        email: "host@example.com",
+        password: "HostPassword123!",
+      });
+      token = await generateTestToken(user._id.toString());
+      stepOffset = -1;
+
+      const setup = await request(app)
+        .post("/api/auth/2fa/setup")
+        .set(getAuthHeaders(token))
+        .expect(200);
+      secret = setup.body.secret;
+      expect(setup.body.otpauthUri).toContain(`secret=${secret}`);
+
+      const confirmed = await request(app)
+        .post("/api/auth/2fa/confirm")
+        .set(getAuthHeaders(token))
+        .send({ code: nextCode() })
+        .expect(200);
+      recoveryCodes = confirmed.body.recoveryCodes;
+      expect(recoveryCodes).toHaveLength(10);
+    });
+
+    it("should return a challenge instead of a session when 2FA is on", async () => {
+      const response = await loginStep();
+
+      expect(response.body.twoFactorRequired).toBe(true);
+      expect(response.body.token).toBeUndefined();
+
+      // The challenge is not an access token
+      await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(response.body.challengeToken))
+        .expect(401);
+
+      const verified = await request(app)
+        .post("/api/auth/2fa/verify")
+        .send({
+          challengeToken: response.body.challengeToken,
+          code: nextCode(),
+        })
+        .expect(200);
+      expect(verified.body.refreshToken).toBeDefined();
+
+      const me = await request(app)
+        .get("/api/auth/me")
+        .set(getAuthHeaders(verified.body.token))
+        .expect(200);
+      expect(me.body.user.twoFactorEnabled).toBe(true);
+    });
+
+    it("should accept each code and recovery code only once", async () => {
+      const { challengeToken } = (await loginStep()).body;
+      const code = nextCode();
+
+      await request(app)
+        .post("/api/auth/2fa/verify")
+        .send({ challengeToken, code })
+        .expect(200);
+      await request(app)
+        .post("/api/auth/2fa/verify")
+        .send({ challengeToken, code })
+        .expect(401);
+
+      await request(app)
+        .post("/api/auth/2fa/verify")
+        .send({ challengeToken, code: recoveryCodes[0].toUpperCase() })
+        .expect(200);
+      await request(app)
+        .post("/api/auth/2fa/verify")
+        .send({ challengeToken, code: recoveryCodes[0] })
+        .expect(401);
+    });
+
+    it("should store recovery codes hashed and keep secrets out of queries", async () => {
+      const user = await User.findOne({ username: "hostuser" });
+      expect(user!.twoFactorSecret).toBeUndefined();
+
+      const stored = await User.findOne({ username: "hostuser" }).select(
+        "+twoFactorSecret +twoFactorRecoveryCodes"
+      );
+      expect(stored!.twoFactorSecret).toBe(secret);
+      expect(stored!.twoFactorRecoveryCodes).not.toContain(recoveryCodes[0]);
+    });
+
+    it("should lock the login after repeated failed codes", async () => {
+      const { challengeToken } = (await loginStep()).body;
+
+      // One short of the lockout threshold
+      for (let i = 0; i < 9; i++) {
+        recordLoginAttempt("hostuser", false);
+      }
+
+      await request(app)
+        .post("/api/auth/2fa/verify")
+        .send({ challengeToken, code: "000000" })
+        .expect(401);
+
+      // Even a correct code is refused while the login is locked
+      const locked = await request(app)
+        .post("/api/auth/2fa/verify")
+        .send({ challengeToken, code: nextCode() })
+        .expect(423);
+      expect(locked.body.message).toContain("locked");
+
+      recordLoginAttempt("hostuser", true);
+    });
+
+    it("should disable 2FA with the password and a code", async () => {
+      await request(app)
+        .post("/api/auth/2fa/disable")
+        .set(getAuthHeaders(token))
+        .send({ password: "HostPassword123!", code: nextCode() })
+        .expect(200);
+
+      const response = await loginStep();
+      expect(response.body.twoFactorRequired).toBeUndefined();
+      expect(response.body.token).toBeDefined();
+    });
+  });
+
   describe("Rate Limiting", () => {
     it("should apply rate limiting to login attempts", async () => {
       const loginData = {
@@ -359,7 +853,7 @@ describe("Authentication Endpoints", () => {
         email: "test@example.com",
       });
 
-      const token = generateTestToken(testUser._id.toString());
+      const token = await generateTestToken(testUser._id.toString());
 
       const response = await request(app)
         .get("/api/auth/me")
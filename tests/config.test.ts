@@ -0,0 +1,139 @@
+import { loadConfig } from "../src/config/env";
+
+const productionEnv = {
+  NODE_ENV: "production",
+  JWT_SECRET: "a-production-secret-that-is-long-enough-1234",
+  MONGODB_URI: "mongodb://db.internal:27017/roomloop",
+  CORS_ORIGIN: "https://roomloop-client.vercel.app",
+  SMTP_HOST: "smtp.mail.internal",
+};
+
+describe("Configuration", () => {
+  it("should fall back to development defaults outside production", () => {
+    const { config, problems } = loadConfig({ NODE_ENV: "development" });
+
+    expect(problems).toEqual([]);
+    expect(config.mongo.uri).toBe("mongodb://localhost:27017/roomloop");
+    expect(config.jwt.verificationKeys).toHaveLength(1);
+  });
+
+  it("should accept a complete production configuration", () => {
+    const { problems } = loadConfig(productionEnv);
+
+    expect(problems).toEqual([]);
+  });
+
+  it("should list every missing production setting", () => {
+    const { problems } = loadConfig({ NODE_ENV: "production" });
+
+    expect(problems).toEqual(
+      expect.arrayContaining([
+        "JWT_SECRET is required in production",
+        "MONGODB_URI is required in production",
+        "CORS_ORIGIN is required in production",
+      ])
+    );
+  });
+
+  it("should refuse default and placeholder values in production", () => {
+    const { problems } = loadConfig({
+      ...productionEnv,
+      JWT_SECRET: "roomloop_secret_key",
+      CORS_ORIGIN: "*",
+      OPENROUTER_API_KEY: "your_openrouter_api_key_here",
+    });
+
+    expect(problems).toEqual([
+      "JWT_SECRET is a known default value",
+      "CORS_ORIGIN cannot be * in production",
+      "OPENROUTER_API_KEY is a placeholder value",
+    ]);
+  });
+
+  it("should require Redis settings for the Socket.IO adapter", () => {
+    const { problems } = loadConfig({
+      ...productionEnv,
+      SOCKET_IO_REDIS_ADAPTER: "true",
+    });
+
+    expect(problems).toEqual(["REDIS_HOST is required in production"]);
+  });
+
+  it("should sign with the current secret and verify with previous ones", () => {
+    const { config } = loadConfig({
+      JWT_SECRET: "current-secret",
+      JWT_PREVIOUS_SECRETS: "old-secret-1, old-secret-2",
+    });
+
+    expect(config.jwt.signingKey.secret).toBe("current-secret");
+    expect(config.jwt.verificationKeys.map((key) => key.secret)).toEqual([
+      "current-secret",
+      "old-secret-1",
+      "old-secret-2",
+    ]);
+  });
+
+  it("should keep mail in a local outbox unless told otherwise", () => {
+    expect(loadConfig({ NODE_ENV: "test" }).config.mail.transport).toBe(
+      "memory"
+    );
+    expect(loadConfig({}).config.mail.transport).toBe("file");
+
+    const { problems } = loadConfig({ MAIL_TRANSPORT: "carrier-pigeon" });
+    expect(problems).toEqual([
+      "MAIL_TRANSPORT must be one of smtp, file, memory, disabled",
+    ]);
+  });
+
+  it("should refuse numeric settings that are not whole numbers", () => {
+    const { config, problems } = loadConfig({
+      NODE_ENV: "development",
+      TYPING_THROTTLE_MS: "2s",
+      MONGODB_MAX_POOL_SIZE: "-1",
+      ROOM_SCHEDULER_BATCH_SIZE: "50",
+    });
+
+    expect(problems).toEqual([
+      "MONGODB_MAX_POOL_SIZE must be a non-negative integer",
+      "TYPING_THROTTLE_MS must be a non-negative integer",
+    ]);
+    expect(config.realtime.typingThrottleMs).toBe(2000);
+    expect(config.scheduler.batchSize).toBe(50);
+  });
+
+  it("should send mail over SMTP when a server is configured", () => {
+    const { config, problems } = loadConfig({
+      ...productionEnv,
+      SMTP_PORT: "465",
+      SMTP_SECURE: "true",
+      SMTP_USER: "roomloop",
+      SMTP_PASSWORD: "smtp-password",
+    });
+
+    expect(problems).toEqual([]);
+    expect(config.mail.transport).toBe("smtp");
+    expect(config.mail.smtp).toEqual({
+      host: "smtp.mail.internal",
+      port: 465,
+      secure: true,
+      user: "roomloop",
+      password: "smtp-password",
+    });
+  });
+
+  it("should disable mail in production without SMTP instead of using an outbox", () => {
+    const { SMTP_HOST, ...withoutSmtp } = productionEnv;
+    const { config, problems } = loadConfig(withoutSmtp);
+
+    expect(problems).toEqual([]);
+    expect(config.mail.transport).toBe("disabled");
+  });
+
+  it("should require a host for the smtp transport", () => {
+    const { problems } = loadConfig({ MAIL_TRANSPORT: "smtp" });
+
+    expect(problems).toEqual([
+      "SMTP_HOST is required for the smtp mail transport",
+    ]);
+  });
+});
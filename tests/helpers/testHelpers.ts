@@ -1,13 +1,20 @@
-import jwt from "jsonwebtoken";
 import User, { IUser } from "../../src/models/User";
 import Room, { IRoom, RoomType, RoomStatus } from "../../src/models/Room";
+import Message, { IMessage } from "../../src/models/Message";
 import { Types } from "mongoose";
+import http from "http";
+import { AddressInfo } from "net";
+import { Server as SocketIOServer } from "socket.io";
+import { io as ioClient, Socket as ClientSocket } from "socket.io-client";
+import { registerSocketHandlers } from "../../src/socket/handlers";
+import { attachRedisAdapter } from "../../src/socket/redisAdapter";
+import sessionService from "../../src/services/sessions";
 
 // Generate test JWT token
-export const generateTestToken = (userId: string): string => {
-  return jwt.sign({ id: userId }, process.env.JWT_SECRET || "test_secret", {
-    expiresIn: "1h",
-  });
+export const generateTestToken = async (userId: string): Promise<string> => {
+  // Backed by a real session, like the tokens handed out at login
+  const { accessToken } = await sessionService.createSession(userId);
+  return accessToken;
 };
 
 // Create test user
@@ -18,6 +25,7 @@ export const createTestUser = async (
     username: `testuser_${Date.now()}`,
     email: `test_${Date.now()}@example.com`,
     password: "TestPassword123!",
+    emailVerified: true,
     createdRooms: [],
     joinedRooms: [],
     invitedToRooms: [],
@@ -133,6 +141,82 @@ export const testData = {
   },
 };
 
+// Create messages in a room, one millisecond apart, oldest first
+export const createTestMessages = async (
+  roomId: string,
+  senderId: string,
+  count: number
+): Promise<IMessage[]> => {
+  const start = Date.now() - count;
+  const messages = Array.from({ length: count }, (_, i) => ({
+    content: `Test message ${i + 1}`,
+    sender: new Types.ObjectId(senderId),
+    room: new Types.ObjectId(roomId),
+    createdAt: new Date(start + i),
+    updatedAt: new Date(start + i),
+  }));
+
+  // Insert directly so the explicit timestamps are kept
+  await Message.collection.insertMany(messages);
+  return Message.find({ room: roomId }).sort({ createdAt: 1 });
+};
+
+// Start a Socket.IO server with the app's socket handlers on a free port.
+// With redis, servers share events through the Redis adapter like separate
+// instances would (needs a local Redis, or REDIS_HOST/REDIS_PORT)
+export const startTestSocketServer = async (
+  options: { redis?: boolean } = {}
+): Promise<{
+  io: SocketIOServer;
+  port: number;
+  close: () => Promise<void>;
+}> => {
+  const httpServer = http.createServer();
+  const io = new SocketIOServer(httpServer);
+  const closeAdapter = options.redis ? await attachRedisAdapter(io) : null;
+  registerSocketHandlers(io);
+
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    io,
+    port,
+    close: async () => {
+      await new Promise<void>((resolve) => {
+        io.close();
+        httpServer.close(() => resolve());
+      });
+      if (closeAdapter) {
+        await closeAdapter();
+      }
+    },
+  };
+};
+
+// Connect an authenticated socket client
+export const connectTestSocket = (
+  port: number,
+  token: string
+): Promise<ClientSocket> =>
+  new Promise((resolve, reject) => {
+    const socket = ioClient(`http://localhost:${port}`, {
+      auth: { token },
+      transports: ["websocket"],
+      forceNew: true,
+    });
+    socket.on("connect", () => resolve(socket));
+    socket.on("connect_error", reject);
+  });
+
+// Emit an event and wait for its acknowledgement
+export const emitWithAck = (
+  socket: ClientSocket,
+  event: string,
+  ...args: any[]
+): Promise<any> =>
+  new Promise((resolve) => socket.emit(event, ...args, resolve));
+
 // Wait for async operations in tests
 export const waitFor = (ms: number): Promise<void> =>
   new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,670 @@
+import request from "supertest";
+import express from "express";
+import cors from "cors";
+import roomRoutes from "../src/routes/rooms";
+import userRoutes from "../src/routes/users";
+import { RoomStatus } from "../src/models/Room";
+import Message from "../src/models/Message";
+import User from "../src/models/User";
+import Reaction from "../src/models/Reaction";
+import cacheService from "../src/services/cache";
+import { io } from "../src/index";
+import { threadChannel } from "../src/utils/channels";
+import {
+  createTestUser,
+  createTestRoom,
+  createTestMessages,
+  generateTestToken,
+  getAuthHeaders,
+} from "./helpers/testHelpers";
+
+// Create test app
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use(cors());
+  app.use("/api/rooms", roomRoutes);
+  app.use("/api/users", userRoutes);
+  return app;
+};
+
+describe("Message Endpoints", () => {
+  let app: express.Application;
+  let testUser: any;
+  let token: string;
+  let room: any;
+
+  beforeEach(async () => {
+    app = createTestApp();
+    testUser = await createTestUser({
+      username: "messageuser",
+      email: "message@example.com",
+    });
+    token = await generateTestToken(testUser._id.toString());
+    room = await createTestRoom(testUser._id.toString(), {
+      status: RoomStatus.LIVE,
+      participants: [testUser._id],
+    });
+  });
+
+  describe("GET /api/rooms/:roomId/messages", () => {
+    it("should return the newest page oldest first", async () => {
+      await createTestMessages(room._id.toString(), testUser._id.toString(), 5);
+
+      const response = await request(app)
+        .get(`/api/rooms/${room._id}/messages?limit=3`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(response.body.messages.map((m: any) => m.content)).toEqual([
+        "Test message 3",
+        "Test message 4",
+        "Test message 5",
+      ]);
+      expect(response.body.pagination.hasOlder).toBe(true);
+      expect(response.body.pagination.hasNewer).toBe(false);
+    });
+
+    it("should page back through history with the previous cursor", async () => {
+      await createTestMessages(room._id.toString(), testUser._id.toString(), 5);
+
+      const firstPage = await request(app)
+        .get(`/api/rooms/${room._id}/messages?limit=3`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      const secondPage = await request(app)
+        .get(
+          `/api/rooms/${room._id}/messages?limit=3&before=${firstPage.body.pagination.prevCursor}`
+        )
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(secondPage.body.messages.map((m: any) => m.content)).toEqual([
+        "Test message 1",
+        "Test message 2",
+      ]);
+      expect(secondPage.body.pagination.hasOlder).toBe(false);
+    });
+
+    it("should return messages after a cursor for resync", async () => {
+      await createTestMessages(room._id.toString(), testUser._id.toString(), 2);
+
+      const firstPage = await request(app)
+        .get(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      await createTestMessages(room._id.toString(), testUser._id.toString(), 1);
+
+      const resync = await request(app)
+        .get(
+          `/api/rooms/${room._id}/messages?after=${firstPage.body.pagination.nextCursor}`
+        )
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(resync.body.count).toBe(1);
+      // The new batch restarts its numbering
+      expect(resync.body.messages[0].content).toBe("Test message 1");
+    });
+
+    it("should page through the index without sorting in memory", async () => {
+      await Message.init();
+
+      const plan = JSON.stringify(
+        await Message.find({ room: room._id, createdAt: { $lt: new Date() } })
+          .sort({ createdAt: -1, _id: -1 })
+          .limit(51)
+          .explain("queryPlanner")
+      );
+
+      expect(plan).toContain("room_1_createdAt_-1__id_-1");
+      expect(plan).not.toContain('"stage":"SORT"');
+    });
+
+    it("should reject an invalid cursor", async () => {
+      await request(app)
+        .get(`/api/rooms/${room._id}/messages?before=not-a-cursor`)
+        .set(getAuthHeaders(token))
+        .expect(400);
+    });
+  });
+
+  describe("PATCH /api/rooms/:roomId/messages/:messageId", () => {
+    it("should edit a message and keep the previous version", async () => {
+      const [message] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+
+      const response = await request(app)
+        .patch(`/api/rooms/${room._id}/messages/${message._id}`)
+        .set(getAuthHeaders(token))
+        .send({ content: "Edited message" })
+        .expect(200);
+
+      expect(response.body.message.content).toBe("Edited message");
+      expect(response.body.message.editedAt).toBeTruthy();
+
+      const history = await request(app)
+        .get(`/api/rooms/${room._id}/messages/${message._id}/history`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(history.body.history).toHaveLength(1);
+      expect(history.body.history[0].content).toBe("Test message 1");
+    });
+
+    it("should not allow editing after the edit window", async () => {
+      const [message] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+      await Message.collection.updateOne(
+        { _id: message._id },
+        { $set: { createdAt: new Date(Date.now() - 60 * 60 * 1000) } }
+      );
+
+      await request(app)
+        .patch(`/api/rooms/${room._id}/messages/${message._id}`)
+        .set(getAuthHeaders(token))
+        .send({ content: "Too late" })
+        .expect(400);
+    });
+
+    it("should not allow editing someone else's message", async () => {
+      const otherUser = await createTestUser({
+        username: "othermessageuser",
+        email: "othermessage@example.com",
+      });
+      const [message] = await createTestMessages(
+        room._id.toString(),
+        otherUser._id.toString(),
+        1
+      );
+
+      await request(app)
+        .patch(`/api/rooms/${room._id}/messages/${message._id}`)
+        .set(getAuthHeaders(token))
+        .send({ content: "Not mine" })
+        .expect(403);
+    });
+  });
+
+  describe("DELETE /api/rooms/:roomId/messages/:messageId", () => {
+    it("should let the room creator delete any message as a tombstone", async () => {
+      const otherUser = await createTestUser({
+        username: "othermessageuser",
+        email: "othermessage@example.com",
+      });
+      const [message] = await createTestMessages(
+        room._id.toString(),
+        otherUser._id.toString(),
+        1
+      );
+
+      await request(app)
+        .delete(`/api/rooms/${room._id}/messages/${message._id}`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      const tombstone = await Message.findById(message._id);
+      expect(tombstone!.deletedAt).toBeTruthy();
+      expect(tombstone!.content).toBe("");
+
+      // Tombstones stay in the timeline
+      const response = await request(app)
+        .get(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+      expect(response.body.count).toBe(1);
+    });
+
+    it("should not let other participants delete a message", async () => {
+      const [message] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+      const otherUser = await createTestUser({
+        username: "othermessageuser",
+        email: "othermessage@example.com",
+      });
+
+      await request(app)
+        .delete(`/api/rooms/${room._id}/messages/${message._id}`)
+        .set(getAuthHeaders(await generateTestToken(otherUser._id.toString())))
+        .expect(403);
+    });
+  });
+
+  describe("Threads", () => {
+    it("should reply in a thread and update the parent", async () => {
+      const [parent] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+
+      await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "A reply", parentMessageId: parent._id.toString() })
+        .expect(201);
+
+      const updatedParent = await Message.findById(parent._id);
+      expect(updatedParent!.replyCount).toBe(1);
+      expect(updatedParent!.lastReplyAt).toBeTruthy();
+
+      const replies = await request(app)
+        .get(`/api/rooms/${room._id}/messages/${parent._id}/replies`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(replies.body.count).toBe(1);
+      expect(replies.body.messages[0].content).toBe("A reply");
+    });
+
+    it("should leave replies out of the main timeline when asked", async () => {
+      const [parent] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+
+      await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "A reply", parentMessageId: parent._id.toString() })
+        .expect(201);
+
+      const response = await request(app)
+        .get(`/api/rooms/${room._id}/messages?includeReplies=false`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(response.body.count).toBe(1);
+      expect(response.body.messages[0]._id).toBe(parent._id.toString());
+    });
+
+    it("should update the parent when a reply is deleted", async () => {
+      const [parent] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+      const reply = (content: string) =>
+        request(app)
+          .post(`/api/rooms/${room._id}/messages`)
+          .set(getAuthHeaders(token))
+          .send({ content, parentMessageId: parent._id.toString() })
+          .expect(201);
+
+      const first = await reply("First reply");
+      const second = await reply("Second reply");
+
+      await request(app)
+        .delete(`/api/rooms/${room._id}/messages/${second.body.message._id}`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      let updatedParent = await Message.findById(parent._id);
+      expect(updatedParent!.replyCount).toBe(1);
+      expect(updatedParent!.lastReplyAt!.toISOString()).toBe(
+        first.body.message.createdAt
+      );
+
+      await request(app)
+        .delete(`/api/rooms/${room._id}/messages/${first.body.message._id}`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      updatedParent = await Message.findById(parent._id);
+      expect(updatedParent!.replyCount).toBe(0);
+      expect(updatedParent!.lastReplyAt).toBeNull();
+    });
+
+    it("should send reply edits and deletions to the thread", async () => {
+      const [parent] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+      const created = await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "A reply", parentMessageId: parent._id.toString() })
+        .expect(201);
+      const url = `/api/rooms/${room._id}/messages/${created.body.message._id}`;
+
+      const emit = jest.fn();
+      const to = jest.spyOn(io, "to").mockReturnValue({ emit } as any);
+      const audienceOf = (event: string) => {
+        const index = emit.mock.calls.findIndex(([name]) => name === event);
+        return index === -1 ? undefined : to.mock.calls[index][0];
+      };
+      const roomId = room._id.toString();
+      const thread = threadChannel(parent._id.toString());
+
+      await request(app)
+        .patch(url)
+        .set(getAuthHeaders(token))
+        .send({ content: "An edited reply" })
+        .expect(200);
+
+      expect(audienceOf("message_updated")).toEqual([roomId, thread]);
+
+      await request(app).delete(url).set(getAuthHeaders(token)).expect(200);
+
+      expect(audienceOf("message_deleted")).toEqual([roomId, thread]);
+      expect(audienceOf("thread_updated")).toBe(roomId);
+      expect(emit).toHaveBeenCalledWith(
+        "thread_updated",
+        expect.objectContaining({ replyCount: 0 })
+      );
+    });
+
+    it("should not allow replying to a reply", async () => {
+      const [parent] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+
+      const reply = await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "A reply", parentMessageId: parent._id.toString() })
+        .expect(201);
+
+      await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "Nested", parentMessageId: reply.body.message._id })
+        .expect(400);
+    });
+  });
+
+  describe("Mentions", () => {
+    it("should store mentions of room members only", async () => {
+      const member = await createTestUser({
+        username: "MentionedUser",
+        email: "mentioned@example.com",
+      });
+      const outsider = await createTestUser({
+        username: "outsider",
+        email: "outsider@example.com",
+      });
+      await room.updateOne({ $push: { participants: member._id } });
+
+      const response = await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "Hi @mentioneduser and @outsider" })
+        .expect(201);
+
+      const message = await Message.findById(response.body.message._id);
+      const mentioned = message!.mentions.map((m) => m.user.toString());
+      expect(mentioned).toEqual([member._id.toString()]);
+      expect(mentioned).not.toContain(outsider._id.toString());
+    });
+
+    it("should list and clear unread mentions", async () => {
+      const member = await createTestUser({
+        username: "mentioneduser",
+        email: "mentioned@example.com",
+      });
+      const memberToken = await generateTestToken(member._id.toString());
+      await room.updateOne({ $push: { participants: member._id } });
+
+      await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "Heads up @here" })
+        .expect(201);
+
+      const unread = await request(app)
+        .get("/api/users/me/mentions")
+        .set(getAuthHeaders(memberToken))
+        .expect(200);
+      expect(unread.body.count).toBe(1);
+
+      await request(app)
+        .post("/api/users/me/mentions/read")
+        .set(getAuthHeaders(memberToken))
+        .send({})
+        .expect(200);
+
+      const afterRead = await request(app)
+        .get("/api/users/me/mentions")
+        .set(getAuthHeaders(memberToken))
+        .expect(200);
+      expect(afterRead.body.count).toBe(0);
+    });
+  });
+
+  describe("POST /api/rooms/:roomId/messages/:messageId/reactions", () => {
+    it("should toggle a reaction and return counts with history", async () => {
+      const [message] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+      const url = `/api/rooms/${room._id}/messages/${message._id}/reactions`;
+
+      const added = await request(app)
+        .post(url)
+        .set(getAuthHeaders(token))
+        .send({ emoji: "🎉" })
+        .expect(200);
+
+      expect(added.body.action).toBe("added");
+      expect(added.body.reactions).toEqual({ "🎉": 1 });
+
+      const history = await request(app)
+        .get(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(history.body.messages[0].reactions).toEqual({ "🎉": 1 });
+      expect(history.body.messages[0].myReactions).toEqual(["🎉"]);
+
+      const removed = await request(app)
+        .post(url)
+        .set(getAuthHeaders(token))
+        .send({ emoji: "🎉" })
+        .expect(200);
+
+      expect(removed.body.action).toBe("removed");
+      expect(removed.body.reactions).toEqual({});
+    });
+
+    it("should keep cached counts in step with the database", async () => {
+      // Stand in for Redis so the cached counts can be read back
+      const cached = new Map<string, Record<string, number>>();
+      jest
+        .spyOn(cacheService, "setReactionCounts")
+        .mockImplementation(async (messageId, counts) => {
+          cached.set(messageId, counts);
+        });
+      jest
+        .spyOn(cacheService, "getReactionCounts")
+        .mockImplementation(async (messageId) => cached.get(messageId) || null);
+      jest
+        .spyOn(cacheService, "invalidateReactionCounts")
+        .mockImplementation(async (messageId) => {
+          cached.delete(messageId);
+        });
+
+      const otherUser = await createTestUser({
+        username: "reactionuser",
+        email: "reaction@example.com",
+      });
+      const otherToken = await generateTestToken(otherUser._id.toString());
+      room.participants.push(otherUser._id);
+      await room.save();
+
+      const [message] = await createTestMessages(
+        room._id.toString(),
+        testUser._id.toString(),
+        1
+      );
+      const messageId = message._id.toString();
+      const url = `/api/rooms/${room._id}/messages/${messageId}/reactions`;
+      const toggle = (authToken: string, emoji: string) =>
+        request(app)
+          .post(url)
+          .set(getAuthHeaders(authToken))
+          .send({ emoji })
+          .expect(200);
+
+      const readHistory = () =>
+        request(app)
+          .get(`/api/rooms/${room._id}/messages`)
+          .set(getAuthHeaders(token))
+          .expect(200);
+
+      await toggle(token, "🎉");
+      await toggle(otherToken, "🎉");
+      await readHistory(); // Fills the cache
+      expect(cached.get(messageId)).toEqual({ "🎉": 2 });
+
+      // Toggles finishing in any order leave no recount behind in the cache
+      await Promise.all([
+        toggle(otherToken, "👍"),
+        toggle(token, "🎉"),
+        toggle(token, "🔥"),
+      ]);
+      expect(cached.has(messageId)).toBe(false);
+
+      const dbCounts: Record<string, number> = {};
+      const reactions = await Reaction.find({ message: messageId });
+      for (const reaction of reactions) {
+        dbCounts[reaction.emoji] = (dbCounts[reaction.emoji] || 0) + 1;
+      }
+      expect(dbCounts).toEqual({ "🎉": 1, "👍": 1, "🔥": 1 });
+
+      const history = await readHistory();
+
+      expect(history.body.messages[0].reactions).toEqual(dbCounts);
+      expect(cached.get(messageId)).toEqual(dbCounts);
+    });
+  });
+
+  describe("Read markers", () => {
+    let otherUser: any;
+    let messages: any[];
+
+    beforeEach(async () => {
+      otherUser = await createTestUser({
+        username: "chattyuser",
+        email: "chatty@example.com",
+      });
+      messages = await createTestMessages(
+        room._id.toString(),
+        otherUser._id.toString(),
+        3
+      );
+      await User.findByIdAndUpdate(testUser._id, {
+        $push: { createdRooms: room._id },
+      });
+    });
+
+    const markRead = (messageId: string) =>
+      request(app)
+        .post(`/api/rooms/${room._id}/messages/${messageId}/read`)
+        .set(getAuthHeaders(token));
+
+    const unreadCount = async () => {
+      const response = await request(app)
+        .get("/api/rooms/user")
+        .set(getAuthHeaders(token))
+        .expect(200);
+      return response.body.rooms.live[0].unreadCount;
+    };
+
+    it("should count unread messages until they are marked read", async () => {
+      expect(await unreadCount()).toBe(3);
+
+      const response = await markRead(messages[1]._id.toString()).expect(200);
+
+      expect(response.body.advanced).toBe(true);
+      expect(response.body.marker.messageId).toBe(messages[1]._id.toString());
+      expect(await unreadCount()).toBe(1);
+    });
+
+    it("should not move a read marker backwards", async () => {
+      await markRead(messages[2]._id.toString()).expect(200);
+
+      const response = await markRead(messages[0]._id.toString()).expect(200);
+
+      expect(response.body.advanced).toBe(false);
+      expect(response.body.marker.messageId).toBe(messages[2]._id.toString());
+      expect(await unreadCount()).toBe(0);
+    });
+  });
+
+  describe("POST /api/rooms/:roomId/messages", () => {
+    it("should save a retried message only once", async () => {
+      const send = () =>
+        request(app)
+          .post(`/api/rooms/${room._id}/messages`)
+          .set(getAuthHeaders(token))
+          .send({ content: "Hello", clientMessageId: "client-msg-1" });
+
+      const first = await send().expect(201);
+      const retry = await send().expect(200);
+
+      expect(retry.body.message._id).toBe(first.body.message._id);
+      expect(await Message.countDocuments({ room: room._id })).toBe(1);
+    });
+
+    it("should scope client message ids to the room", async () => {
+      const otherRoom = await createTestRoom(testUser._id.toString(), {
+        status: RoomStatus.LIVE,
+        participants: [testUser._id],
+        code: "OTHER_ROOM",
+      });
+      const send = (roomId: string) =>
+        request(app)
+          .post(`/api/rooms/${roomId}/messages`)
+          .set(getAuthHeaders(token))
+          .send({ content: "Hello", clientMessageId: "client-msg-1" });
+
+      const first = await send(room._id.toString()).expect(201);
+      const second = await send(otherRoom._id.toString()).expect(201);
+
+      expect(second.body.message._id).not.toBe(first.body.message._id);
+      expect(second.body.message.room).toBe(otherRoom._id.toString());
+    });
+
+    it("should not answer a retry for a room the sender can no longer post in", async () => {
+      const send = () =>
+        request(app)
+          .post(`/api/rooms/${room._id}/messages`)
+          .set(getAuthHeaders(token))
+          .send({ content: "Hello", clientMessageId: "client-msg-1" });
+
+      await send().expect(201);
+      await room.updateOne({ status: RoomStatus.CLOSED });
+
+      const retry = await send().expect(400);
+      expect(retry.body.code).toBe("room_not_live");
+    });
+
+    it("should return a structured error when the room is not live", async () => {
+      await room.updateOne({ status: RoomStatus.SCHEDULED });
+
+      const response = await request(app)
+        .post(`/api/rooms/${room._id}/messages`)
+        .set(getAuthHeaders(token))
+        .send({ content: "Hello" })
+        .expect(400);
+
+      expect(response.body.code).toBe("room_not_live");
+    });
+  });
+});
@@ -2,10 +2,13 @@ import request from "supertest";
 import express from "express";
 import cors from "cors";
 import roomRoutes from "../src/routes/rooms";
-import Room from "../src/models/Room";
+import Room, { RoomStatus, RoomType } from "../src/models/Room";
+import User from "../src/models/User";
+import roomMembership from "../src/services/roomMembership";
 import {
   createTestUser,
   createTestRoom,
+  createTestUsers,
   generateTestToken,
   getAuthHeaders,
   testData,
@@ -31,7 +34,7 @@ describe("Room Endpoints", () => {
       username: "roomuser",
       email: "room@example.com",
     });
-    token = generateTestToken(testUser._id.toString());
+    token = await generateTestToken(testUser._id.toString());
   });
 
   describe("POST /api/rooms", () => {
@@ -122,6 +125,51 @@ describe("Room Endpoints", () => {
         room2Response.body.room.code
       );
     });
+
+    it("should not let an unverified user create a room", async () => {
+      const unverified = await createTestUser({
+        username: "unverified",
+        email: "unverified@example.com",
+        emailVerified: false,
+      });
+      const unverifiedToken = await generateTestToken(
+        unverified._id.toString()
+      );
+
+      const response = await request(app)
+        .post("/api/rooms")
+        .set(getAuthHeaders(unverifiedToken))
+        .send(testData.validRoom)
+        .expect(403);
+      expect(response.body.reason).toBe("email_unverified");
+
+      // Browsing public rooms still works
+      await request(app)
+        .get("/api/rooms/public")
+        .set(getAuthHeaders(unverifiedToken))
+        .expect(200);
+      expect(await Room.countDocuments({})).toBe(0);
+    });
+
+    it("should let accounts from before email verification create rooms", async () => {
+      // Written straight to the collection, like a document saved before
+      // the emailVerified field existed
+      const { insertedId } = await User.collection.insertOne({
+        username: "legacyuser",
+        email: "legacy@example.com",
+        password: "not-a-real-hash",
+        createdRooms: [],
+        joinedRooms: [],
+        invitedToRooms: [],
+      });
+      const legacyToken = await generateTestToken(insertedId.toString());
+
+      await request(app)
+        .post("/api/rooms")
+        .set(getAuthHeaders(legacyToken))
+        .send(testData.validRoom)
+        .expect(201);
+    });
   });
 
   describe("GET /api/rooms/public", () => {
@@ -230,7 +278,7 @@ describe("Room Endpoints", () => {
         username: "otheruser",
         email: "other@example.com",
       });
-      otherToken = generateTestToken(otherUser._id.toString());
+      otherToken = await generateTestToken(otherUser._id.toString());
     });
 
     it("should allow user to join a public room", async () => {
@@ -274,6 +322,39 @@ describe("Room Endpoints", () => {
       expect(response.body.message).toContain("creator");
     });
 
+    it("should never exceed capacity when joins race", async () => {
+      const cappedRoom = await createTestRoom(testUser._id, {
+        title: "Capped Room",
+        roomType: RoomType.PUBLIC,
+        maxParticipants: 3,
+        participants: [testUser._id],
+      });
+      const joiners = await createTestUsers(10);
+      const joinerTokens = await Promise.all(
+        joiners.map((joiner) => generateTestToken(joiner._id.toString()))
+      );
+
+      // Fire every join at once
+      const responses = await Promise.all(
+        joinerTokens.map((joinerToken) =>
+          request(app)
+            .post(`/api/rooms/${cappedRoom._id}/join`)
+            .set(getAuthHeaders(joinerToken))
+        )
+      );
+
+      const accepted = responses.filter((r) => r.status === 200);
+      const rejected = responses.filter((r) => r.status === 400);
+      expect(accepted).toHaveLength(2);
+      expect(rejected).toHaveLength(8);
+      rejected.forEach((r) =>
+        expect(r.body.message).toContain("maximum capacity")
+      );
+
+      const updatedRoom = await Room.findById(cappedRoom._id);
+      expect(updatedRoom!.participants).toHaveLength(3);
+    });
+
     it("should reject joining with invalid room ID", async () => {
       const response = await request(app)
         .post("/api/rooms/invalid_id/join")
@@ -285,6 +366,430 @@ describe("Room Endpoints", () => {
     });
   });
 
+  describe("Room codes", () => {
+    let codeRoom: any;
+    let joiner: any;
+    let joinerToken: string;
+
+    const joinByCode = (code: string) =>
+      request(app)
+        .post(`/api/rooms/code/${code}/join`)
+        .set(getAuthHeaders(joinerToken));
+
+    beforeEach(async () => {
+      codeRoom = await createTestRoom(testUser._id, {
+        title: "Room with a Code",
+        roomType: RoomType.PUBLIC,
+        code: "JOINME",
+      });
+      joiner = await createTestUser({
+        username: "codejoiner",
+        email: "codejoiner@example.com",
+      });
+      joinerToken = await generateTestToken(joiner._id.toString());
+    });
+
+    it("should join a room by its code in any case", async () => {
+      const lookup = await request(app)
+        .get("/api/rooms/code/joinme")
+        .set(getAuthHeaders(joinerToken))
+        .expect(200);
+      expect(lookup.body.room._id).toBe(codeRoom._id.toString());
+
+      await joinByCode("joinme").expect(200);
+
+      const updatedRoom = await Room.findById(codeRoom._id);
+      expect(updatedRoom!.participants).toContainEqual(joiner._id);
+    });
+
+    it("should stop accepting the old code after a rotation", async () => {
+      const rotated = await request(app)
+        .post(`/api/rooms/${codeRoom._id}/code/rotate`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+      expect(rotated.body.code).not.toBe("JOINME");
+
+      const old = await joinByCode("JOINME").expect(404);
+      expect(old.body.reason).toBe("invalid_code");
+
+      await joinByCode(rotated.body.code).expect(200);
+    });
+
+    it("should reject a revoked code", async () => {
+      await request(app)
+        .delete(`/api/rooms/${codeRoom._id}/code`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      const response = await joinByCode("JOINME").expect(404);
+      expect(response.body.reason).toBe("invalid_code");
+    });
+
+    it("should only let the creator rotate or revoke the code", async () => {
+      await request(app)
+        .post(`/api/rooms/${codeRoom._id}/code/rotate`)
+        .set(getAuthHeaders(joinerToken))
+        .expect(403);
+      await request(app)
+        .delete(`/api/rooms/${codeRoom._id}/code`)
+        .set(getAuthHeaders(joinerToken))
+        .expect(403);
+    });
+
+    it("should tell unknown codes apart from closed and cancelled rooms", async () => {
+      const unknown = await joinByCode("NOSUCHCODE").expect(404);
+      expect(unknown.body.reason).toBe("invalid_code");
+
+      await codeRoom.updateOne({ status: RoomStatus.CLOSED });
+      const closed = await joinByCode("JOINME").expect(410);
+      expect(closed.body.reason).toBe("room_closed");
+      expect(closed.body.message).toContain("closed");
+
+      await codeRoom.updateOne({ status: RoomStatus.CANCELLED });
+      const cancelled = await joinByCode("JOINME").expect(410);
+      expect(cancelled.body.reason).toBe("room_closed");
+      expect(cancelled.body.message).toContain("cancelled");
+    });
+
+    it("should not let anyone join a closed room directly", async () => {
+      await codeRoom.updateOne({ status: RoomStatus.CLOSED });
+
+      const response = await request(app)
+        .post(`/api/rooms/${codeRoom._id}/join`)
+        .set(getAuthHeaders(joinerToken))
+        .expect(400);
+      expect(response.body.message).toContain("closed");
+
+      const updatedRoom = await Room.findById(codeRoom._id);
+      expect(updatedRoom!.participants).toHaveLength(0);
+    });
+  });
+
+  describe("POST /api/rooms/:roomId/leave", () => {
+    let testRoom: any;
+    let participant: any;
+    let participantToken: string;
+
+    beforeEach(async () => {
+      participant = await createTestUser({
+        username: "leavinguser",
+        email: "leaving@example.com",
+      });
+      participantToken = await generateTestToken(participant._id.toString());
+      testRoom = await createTestRoom(testUser._id, {
+        title: "Room to Leave",
+        participants: [testUser._id, participant._id],
+      });
+      await User.findByIdAndUpdate(participant._id, {
+        $push: { joinedRooms: testRoom._id },
+      });
+    });
+
+    it("should remove the user from both sides of the membership", async () => {
+      const response = await request(app)
+        .post(`/api/rooms/${testRoom._id}/leave`)
+        .set(getAuthHeaders(participantToken))
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+
+      const updatedRoom = await Room.findById(testRoom._id);
+      expect(updatedRoom!.participants).not.toContainEqual(participant._id);
+
+      const updatedUser = await User.findById(participant._id);
+      expect(updatedUser!.joinedRooms).not.toContainEqual(testRoom._id);
+    });
+
+    it("should block the creator from leaving", async () => {
+      const response = await request(app)
+        .post(`/api/rooms/${testRoom._id}/leave`)
+        .set(getAuthHeaders(token))
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toContain("transfer ownership");
+    });
+  });
+
+  describe("POST /api/rooms/:roomId/transfer-ownership", () => {
+    let testRoom: any;
+    let participant: any;
+    let participantToken: string;
+
+    const transfer = (authToken: string, username: string) =>
+      request(app)
+        .post(`/api/rooms/${testRoom._id}/transfer-ownership`)
+        .set(getAuthHeaders(authToken))
+        .send({ username });
+
+    beforeEach(async () => {
+      participant = await createTestUser({
+        username: "newowner",
+        email: "newowner@example.com",
+      });
+      participantToken = await generateTestToken(participant._id.toString());
+      testRoom = await createTestRoom(testUser._id, {
+        title: "Room to Hand Over",
+        participants: [testUser._id, participant._id],
+      });
+      await User.findByIdAndUpdate(testUser._id, {
+        $push: { createdRooms: testRoom._id },
+      });
+    });
+
+    it("should hand the room to a participant", async () => {
+      const response = await transfer(token, "newowner").expect(200);
+
+      expect(response.body.room.creator).toBe(participant._id.toString());
+
+      const previousOwner = await User.findById(testUser._id);
+      const newOwner = await User.findById(participant._id);
+      expect(previousOwner!.createdRooms).not.toContainEqual(testRoom._id);
+      expect(newOwner!.createdRooms).toContainEqual(testRoom._id);
+
+      // The previous owner is now an ordinary participant and can leave
+      await request(app)
+        .post(`/api/rooms/${testRoom._id}/leave`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+    });
+
+    it("should only let the creator transfer ownership", async () => {
+      const response = await transfer(participantToken, "newowner").expect(403);
+
+      expect(response.body.success).toBe(false);
+      const unchangedRoom = await Room.findById(testRoom._id);
+      expect(unchangedRoom!.creator).toEqual(testUser._id);
+    });
+
+    it("should not hand the room to someone outside it", async () => {
+      await createTestUser({
+        username: "bystander",
+        email: "bystander@example.com",
+      });
+
+      const response = await transfer(token, "bystander").expect(400);
+
+      expect(response.body.message).toContain("must be a participant");
+      const unchangedRoom = await Room.findById(testRoom._id);
+      expect(unchangedRoom!.creator).toEqual(testUser._id);
+    });
+  });
+
+  describe("GET /api/rooms/:roomId/presence", () => {
+    it("should return the roster of a room the user can view", async () => {
+      const testRoom = await createTestRoom(testUser._id);
+
+      const response = await request(app)
+        .get(`/api/rooms/${testRoom._id}/presence`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.users).toEqual([]);
+      expect(response.body.count).toBe(0);
+    });
+
+    it("should hide the roster of a private room from uninvited users", async () => {
+      const outsider = await createTestUser({
+        username: "presenceoutsider",
+        email: "presenceoutsider@example.com",
+      });
+      const privateRoom = await createTestRoom(testUser._id, {
+        roomType: RoomType.PRIVATE,
+      });
+
+      const response = await request(app)
+        .get(`/api/rooms/${privateRoom._id}/presence`)
+        .set(getAuthHeaders(await generateTestToken(outsider._id.toString())))
+        .expect(403);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe("Room waitlist", () => {
+    it("should promote the next waiting user when a seat frees up", async () => {
+      const [seated, waiting] = await createTestUsers(2);
+      const seatedToken = await generateTestToken(seated._id.toString());
+      const waitingToken = await generateTestToken(waiting._id.toString());
+      const fullRoom = await createTestRoom(testUser._id, {
+        title: "Full Room",
+        maxParticipants: 2,
+        waitlistEnabled: true,
+        participants: [testUser._id, seated._id],
+      });
+
+      const joinResponse = await request(app)
+        .post(`/api/rooms/${fullRoom._id}/waitlist`)
+        .set(getAuthHeaders(waitingToken))
+        .expect(200);
+      expect(joinResponse.body.position).toBe(1);
+
+      await request(app)
+        .post(`/api/rooms/${fullRoom._id}/leave`)
+        .set(getAuthHeaders(seatedToken))
+        .expect(200);
+
+      // The freed seat is held for the first user in line
+      const positionResponse = await request(app)
+        .get(`/api/rooms/${fullRoom._id}/waitlist/position`)
+        .set(getAuthHeaders(waitingToken))
+        .expect(200);
+      expect(positionResponse.body.seatOffer).not.toBeNull();
+
+      await request(app)
+        .post(`/api/rooms/${fullRoom._id}/waitlist/confirm`)
+        .set(getAuthHeaders(waitingToken))
+        .expect(200);
+
+      const updatedRoom = await Room.findById(fullRoom._id);
+      expect(updatedRoom!.participants).toContainEqual(waiting._id);
+      expect(updatedRoom!.seatOffers).toHaveLength(0);
+      expect(updatedRoom!.waitlist).toHaveLength(0);
+    });
+
+    describe("with people waiting", () => {
+      let seated: any;
+      let first: any;
+      let second: any;
+      let fullRoom: any;
+
+      const seatOfferUsers = async () =>
+        (await Room.findById(fullRoom._id))!.seatOffers.map((offer) =>
+          offer.user.toString()
+        );
+
+      beforeEach(async () => {
+        [seated, first, second] = await createTestUsers(3);
+        fullRoom = await createTestRoom(testUser._id, {
+          title: "Popular Room",
+          maxParticipants: 2,
+          waitlistEnabled: true,
+          participants: [testUser._id, seated._id],
+        });
+
+        for (const user of [first, second]) {
+          await request(app)
+            .post(`/api/rooms/${fullRoom._id}/waitlist`)
+            .set(getAuthHeaders(await generateTestToken(user._id.toString())))
+            .expect(200);
+        }
+      });
+
+      it("should not let a direct join take a seat freed for the waitlist", async () => {
+        const newcomer = await createTestUser({
+          username: "newcomer",
+          email: "newcomer@example.com",
+        });
+
+        // The leave has removed the participant but not yet offered the seat
+        await Room.updateOne(
+          { _id: fullRoom._id },
+          { $pull: { participants: seated._id } }
+        );
+
+        const joinResponse = await request(app)
+          .post(`/api/rooms/${fullRoom._id}/join`)
+          .set(getAuthHeaders(await generateTestToken(newcomer._id.toString())))
+          .expect(400);
+        expect(joinResponse.body.waitlistAvailable).toBe(true);
+
+        const updatedRoom = await Room.findById(fullRoom._id);
+        expect(updatedRoom!.participants).not.toContainEqual(newcomer._id);
+        expect(await seatOfferUsers()).toEqual([first._id.toString()]);
+      });
+
+      it("should pass an expired offer to the next person in line", async () => {
+        await roomMembership.leaveRoom(fullRoom._id, seated._id);
+        expect(await seatOfferUsers()).toEqual([first._id.toString()]);
+
+        await Room.updateOne(
+          { _id: fullRoom._id },
+          { $set: { "seatOffers.0.expiresAt": new Date(Date.now() - 1000) } }
+        );
+        await roomMembership.expireSeatOffers();
+
+        expect(await seatOfferUsers()).toEqual([second._id.toString()]);
+
+        await request(app)
+          .post(`/api/rooms/${fullRoom._id}/waitlist/confirm`)
+          .set(getAuthHeaders(await generateTestToken(first._id.toString())))
+          .expect(404);
+      });
+
+      it("should pass a declined offer to the next person in line", async () => {
+        await roomMembership.leaveRoom(fullRoom._id, seated._id);
+        expect(await seatOfferUsers()).toEqual([first._id.toString()]);
+
+        await request(app)
+          .delete(`/api/rooms/${fullRoom._id}/waitlist`)
+          .set(getAuthHeaders(await generateTestToken(first._id.toString())))
+          .expect(200);
+
+        expect(await seatOfferUsers()).toEqual([second._id.toString()]);
+        const updatedRoom = await Room.findById(fullRoom._id);
+        expect(updatedRoom!.waitlist).toHaveLength(0);
+      });
+
+      it("should empty the waitlist when it is turned off", async () => {
+        await roomMembership.leaveRoom(fullRoom._id, seated._id);
+        expect(await seatOfferUsers()).toEqual([first._id.toString()]);
+
+        const response = await request(app)
+          .patch(`/api/rooms/${fullRoom._id}`)
+          .set(getAuthHeaders(token))
+          .send({ waitlistEnabled: false })
+          .expect(200);
+        expect(response.body.room.waitlistEnabled).toBe(false);
+
+        const updatedRoom = await Room.findById(fullRoom._id);
+        expect(updatedRoom!.waitlist).toHaveLength(0);
+        expect(updatedRoom!.seatOffers).toHaveLength(0);
+
+        // The seat that was held is open to direct joins again
+        const newcomer = await createTestUser({
+          username: "latearrival",
+          email: "latearrival@example.com",
+        });
+        await request(app)
+          .post(`/api/rooms/${fullRoom._id}/join`)
+          .set(getAuthHeaders(await generateTestToken(newcomer._id.toString())))
+          .expect(200);
+      });
+    });
+  });
+
+  describe("POST /api/rooms/:roomId/invitations/decline", () => {
+    it("should withdraw the invitation on both sides", async () => {
+      const invitee = await createTestUser({
+        username: "decliner",
+        email: "decliner@example.com",
+      });
+      const testRoom = await createTestRoom(testUser._id, {
+        title: "Room to Decline",
+        roomType: RoomType.PRIVATE,
+        invitedUsers: [invitee._id],
+      });
+      await User.findByIdAndUpdate(invitee._id, {
+        $push: { invitedToRooms: testRoom._id },
+      });
+
+      const response = await request(app)
+        .post(`/api/rooms/${testRoom._id}/invitations/decline`)
+        .set(getAuthHeaders(await generateTestToken(invitee._id.toString())))
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+
+      const updatedRoom = await Room.findById(testRoom._id);
+      expect(updatedRoom!.invitedUsers).not.toContainEqual(invitee._id);
+
+      const updatedUser = await User.findById(invitee._id);
+      expect(updatedUser!.invitedToRooms).not.toContainEqual(testRoom._id);
+    });
+  });
+
   describe("POST /api/rooms/:roomId/invite", () => {
     let testRoom: any;
     let userToInvite: any;
@@ -322,7 +827,7 @@ describe("Room Endpoints", () => {
         username: "noncraetor",
         email: "noncreator@example.com",
       });
-      const otherToken = generateTestToken(otherUser._id.toString());
+      const otherToken = await generateTestToken(otherUser._id.toString());
 
       const response = await request(app)
         .post(`/api/rooms/${testRoom._id}/invite`)
@@ -336,6 +841,25 @@ describe("Room Endpoints", () => {
       expect(response.body.message).toContain("permission");
     });
 
+    it("should not let a creator with an unverified email invite users", async () => {
+      await User.updateOne(
+        { _id: testUser._id },
+        { $set: { emailVerified: false } }
+      );
+
+      const response = await request(app)
+        .post(`/api/rooms/${testRoom._id}/invite`)
+        .set(getAuthHeaders(token))
+        .send({
+          usernames: ["inviteduser"],
+        })
+        .expect(403);
+      expect(response.body.reason).toBe("email_unverified");
+
+      const room = await Room.findById(testRoom._id);
+      expect(room!.invitedUsers).toHaveLength(0);
+    });
+
     it("should reject invitation with invalid usernames", async () => {
       const response = await request(app)
         .post(`/api/rooms/${testRoom._id}/invite`)
@@ -363,6 +887,116 @@ describe("Room Endpoints", () => {
     });
   });
 
+  describe("PATCH /api/rooms/:id", () => {
+    let testRoom: any;
+
+    beforeEach(async () => {
+      testRoom = await createTestRoom(testUser._id, {
+        title: "Room to Edit",
+        maxParticipants: 5,
+      });
+    });
+
+    it("should allow the creator to update room details", async () => {
+      const response = await request(app)
+        .patch(`/api/rooms/${testRoom._id}`)
+        .set(getAuthHeaders(token))
+        .send({ title: "Edited Room", tags: ["edited"] })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.room.title).toBe("Edited Room");
+      expect(response.body.room.tags).toEqual(["edited"]);
+    });
+
+    it("should reject an end time before the start time", async () => {
+      const response = await request(app)
+        .patch(`/api/rooms/${testRoom._id}`)
+        .set(getAuthHeaders(token))
+        .send({ endTime: new Date(testRoom.startTime.getTime() - 1000) })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toContain("End time must be after");
+    });
+
+    it("should reject capacity below the current participant count", async () => {
+      const participants = await Promise.all(
+        [1, 2, 3].map((i) =>
+          createTestUser({
+            username: `capacityuser${i}`,
+            email: `capacity${i}@example.com`,
+          })
+        )
+      );
+      await Room.findByIdAndUpdate(testRoom._id, {
+        participants: participants.map((participant) => participant._id),
+      });
+
+      const response = await request(app)
+        .patch(`/api/rooms/${testRoom._id}`)
+        .set(getAuthHeaders(token))
+        .send({ maxParticipants: 2 })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.message).toContain("participants");
+    });
+
+    it("should reject updates from non-creators", async () => {
+      const otherUser = await createTestUser({
+        username: "editor",
+        email: "editor@example.com",
+      });
+
+      const response = await request(app)
+        .patch(`/api/rooms/${testRoom._id}`)
+        .set(getAuthHeaders(await generateTestToken(otherUser._id.toString())))
+        .send({ title: "Hijacked" })
+        .expect(403);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe("DELETE /api/rooms/:id", () => {
+    it("should cancel the room and remove it from user room lists", async () => {
+      const invitedUser = await createTestUser({
+        username: "cancelinvitee",
+        email: "cancelinvitee@example.com",
+      });
+      const testRoom = await createTestRoom(testUser._id, {
+        title: "Room to Cancel",
+        participants: [testUser._id],
+        invitedUsers: [invitedUser._id],
+      });
+      await User.findByIdAndUpdate(testUser._id, {
+        $push: { createdRooms: testRoom._id, joinedRooms: testRoom._id },
+      });
+      await User.findByIdAndUpdate(invitedUser._id, {
+        $push: { invitedToRooms: testRoom._id },
+      });
+
+      const response = await request(app)
+        .delete(`/api/rooms/${testRoom._id}`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+
+      // The room is kept for history
+      const cancelledRoom = await Room.findById(testRoom._id);
+      expect(cancelledRoom!.status).toBe("cancelled");
+
+      const creator = await User.findById(testUser._id);
+      expect(creator!.createdRooms).not.toContainEqual(testRoom._id);
+      expect(creator!.joinedRooms).not.toContainEqual(testRoom._id);
+
+      const invitee = await User.findById(invitedUser._id);
+      expect(invitee!.invitedToRooms).not.toContainEqual(testRoom._id);
+    });
+  });
+
   describe("Rate Limiting", () => {
     it("should apply rate limiting to room creation", async () => {
       const promises = Array(12)
@@ -0,0 +1,140 @@
+import Room, { RoomStatus } from "../src/models/Room";
+import roomLifecycle from "../src/services/roomLifecycle";
+import roomScheduler, { RoomScheduler } from "../src/services/roomScheduler";
+import { config } from "../src/config/env";
+import { createTestUser, createTestRoom } from "./helpers/testHelpers";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("Room scheduler", () => {
+  let testUser: any;
+  let notifyMembers: jest.SpyInstance;
+
+  // New rooms get their status from their times when saved, so rooms are
+  // created in the future and then moved so that a transition is due
+  const createDueRoom = async (
+    code: string,
+    startOffsetMs: number,
+    endOffsetMs: number
+  ) => {
+    const room = await createTestRoom(testUser._id.toString(), { code });
+    await Room.updateOne(
+      { _id: room._id },
+      {
+        $set: {
+          startTime: new Date(Date.now() + startOffsetMs),
+          endTime: new Date(Date.now() + endOffsetMs),
+        },
+      }
+    );
+    return room;
+  };
+
+  const statusOf = async (roomId: any) => (await Room.findById(roomId))!.status;
+
+  const statusEvents = () =>
+    notifyMembers.mock.calls.filter(
+      ([, event]) => event === "room_status_changed"
+    );
+
+  beforeEach(async () => {
+    testUser = await createTestUser({
+      username: "scheduleruser",
+      email: "scheduler@example.com",
+    });
+    notifyMembers = jest
+      .spyOn(roomLifecycle, "notifyMembers")
+      .mockReturnValue(0);
+  });
+
+  it("should move a room from scheduled to live to closed", async () => {
+    const room = await createDueRoom("SCHED_LIVE", -MINUTE_MS, 30 * MINUTE_MS);
+
+    await roomScheduler.tick();
+
+    expect(await statusOf(room._id)).toBe(RoomStatus.LIVE);
+    expect(statusEvents()).toHaveLength(1);
+    expect(statusEvents()[0][2]).toMatchObject({ status: RoomStatus.LIVE });
+
+    await Room.updateOne(
+      { _id: room._id },
+      { $set: { endTime: new Date(Date.now() - 1000) } }
+    );
+    await roomScheduler.tick();
+
+    expect(await statusOf(room._id)).toBe(RoomStatus.CLOSED);
+    expect(statusEvents()).toHaveLength(2);
+    expect(statusEvents()[1][2]).toMatchObject({ status: RoomStatus.CLOSED });
+  });
+
+  it("should close a scheduled room whose end time passed", async () => {
+    const room = await createDueRoom("SCHED_SKIP", -60 * MINUTE_MS, -MINUTE_MS);
+
+    await roomScheduler.tick();
+
+    expect(await statusOf(room._id)).toBe(RoomStatus.CLOSED);
+    expect(statusEvents()).toHaveLength(1);
+  });
+
+  it("should leave rooms that are not due alone", async () => {
+    const room = await createTestRoom(testUser._id.toString(), {
+      code: "SCHED_LATER",
+    });
+
+    await roomScheduler.tick();
+
+    expect(await statusOf(room._id)).toBe(RoomStatus.SCHEDULED);
+    expect(statusEvents()).toHaveLength(0);
+  });
+
+  it("should announce each transition once when passes overlap", async () => {
+    const rooms = await Promise.all(
+      ["SCHED_A", "SCHED_B", "SCHED_C"].map((code) =>
+        createDueRoom(code, -MINUTE_MS, 30 * MINUTE_MS)
+      )
+    );
+
+    // Two instances, as when several servers share the database
+    const otherScheduler = new RoomScheduler();
+    await Promise.all([roomScheduler.tick(), otherScheduler.tick()]);
+
+    for (const room of rooms) {
+      expect(await statusOf(room._id)).toBe(RoomStatus.LIVE);
+    }
+
+    const announcedRooms = statusEvents().map(([, , payload]) =>
+      payload.roomId.toString()
+    );
+    expect(announcedRooms).toHaveLength(rooms.length);
+    expect(new Set(announcedRooms).size).toBe(rooms.length);
+  });
+
+  describe("batch limit", () => {
+    const originalBatchSize = config.scheduler.batchSize;
+
+    beforeEach(() => {
+      config.scheduler.batchSize = 2;
+    });
+
+    afterEach(() => {
+      config.scheduler.batchSize = originalBatchSize;
+    });
+
+    it("should move at most one batch of rooms per pass", async () => {
+      for (const code of ["BATCH_A", "BATCH_B", "BATCH_C"]) {
+        await createDueRoom(code, -MINUTE_MS, 30 * MINUTE_MS);
+      }
+
+      await roomScheduler.tick();
+
+      expect(await Room.countDocuments({ status: RoomStatus.LIVE })).toBe(2);
+      expect(statusEvents()).toHaveLength(2);
+
+      // The rest is picked up on the next pass
+      await roomScheduler.tick();
+
+      expect(await Room.countDocuments({ status: RoomStatus.LIVE })).toBe(3);
+      expect(statusEvents()).toHaveLength(3);
+    });
+  });
+});
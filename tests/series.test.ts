@@ -0,0 +1,275 @@
+import request from "supertest";
+import express from "express";
+import cors from "cors";
+import roomRoutes from "../src/routes/rooms";
+import seriesRoutes from "../src/routes/series";
+import Room, { RoomStatus } from "../src/models/Room";
+import RoomSeries from "../src/models/RoomSeries";
+import User from "../src/models/User";
+import roomSeriesService from "../src/services/roomSeries";
+import {
+  createTestUser,
+  generateTestToken,
+  getAuthHeaders,
+} from "./helpers/testHelpers";
+
+// Create test app
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use(cors());
+  app.use("/api/rooms", roomRoutes);
+  app.use("/api/series", seriesRoutes);
+  return app;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Series Endpoints", () => {
+  let app: express.Application;
+  let testUser: any;
+  let token: string;
+  let firstStart: Date;
+
+  const weeklySeries = () => ({
+    title: "Weekly Standup",
+    description: "Recurring team standup",
+    startTime: firstStart.toISOString(),
+    endTime: new Date(firstStart.getTime() + 30 * 60 * 1000).toISOString(),
+    recurrence: { frequency: "weekly", interval: 1 },
+  });
+
+  beforeEach(async () => {
+    app = createTestApp();
+    testUser = await createTestUser({
+      username: "seriesuser",
+      email: "series@example.com",
+    });
+    token = await generateTestToken(testUser._id.toString());
+    firstStart = new Date(Date.now() + 60 * 60 * 1000);
+  });
+
+  describe("POST /api/series", () => {
+    it("should create rooms for occurrences inside the horizon", async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send(weeklySeries())
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      // Default 14 day horizon covers this week and next week
+      expect(response.body.rooms).toHaveLength(2);
+
+      const rooms = await Room.find({ series: response.body.series._id }).sort({
+        startTime: 1,
+      });
+      expect(rooms[0].startTime.getTime()).toBe(firstStart.getTime());
+      expect(rooms[1].startTime.getTime()).toBe(
+        firstStart.getTime() + 7 * DAY_MS
+      );
+    });
+
+    it("should reject an invalid recurrence rule", async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send({ ...weeklySeries(), recurrence: { frequency: "hourly" } })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it("should reject a rule with more occurrences than the limit", async () => {
+      const tooMany = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send({
+          ...weeklySeries(),
+          recurrence: { frequency: "daily", interval: 1, count: 10001 },
+        })
+        .expect(400);
+      expect(tooMany.body.message).toContain("10000 occurrences");
+
+      // About 11000 daily occurrences before the end date
+      const tooLong = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send({
+          ...weeklySeries(),
+          recurrence: {
+            frequency: "daily",
+            interval: 1,
+            until: new Date(firstStart.getTime() + 11000 * DAY_MS),
+          },
+        })
+        .expect(400);
+      expect(tooLong.body.message).toContain("10000 occurrences");
+
+      expect(await RoomSeries.countDocuments()).toBe(0);
+    });
+
+    it("should not create duplicate occurrences when generated twice", async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send(weeklySeries())
+        .expect(201);
+
+      const series = await RoomSeries.findById(response.body.series._id);
+      await Promise.all([
+        roomSeriesService.materialize(series!),
+        roomSeriesService.materialize(series!),
+      ]);
+
+      const count = await Room.countDocuments({ series: series!._id });
+      expect(count).toBe(2);
+    });
+  });
+
+  describe("Single occurrences", () => {
+    it("should not recreate a cancelled occurrence", async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send(weeklySeries())
+        .expect(201);
+
+      const occurrenceId = response.body.rooms[0]._id;
+
+      await request(app)
+        .delete(`/api/rooms/${occurrenceId}`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      const series = await RoomSeries.findById(response.body.series._id);
+      expect(series!.exceptions).toHaveLength(1);
+
+      await roomSeriesService.materialize(series!);
+
+      const activeRooms = await Room.countDocuments({
+        series: series!._id,
+        status: { $ne: RoomStatus.CANCELLED },
+      });
+      expect(activeRooms).toBe(1);
+    });
+
+    it("should keep an edited occurrence out of series-wide edits", async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send(weeklySeries())
+        .expect(201);
+
+      const [edited, untouched] = response.body.rooms;
+
+      await request(app)
+        .patch(`/api/rooms/${edited._id}`)
+        .set(getAuthHeaders(token))
+        .send({ title: "Special Edition" })
+        .expect(200);
+
+      await request(app)
+        .patch(`/api/series/${response.body.series._id}`)
+        .set(getAuthHeaders(token))
+        .send({ title: "Renamed Standup" })
+        .expect(200);
+
+      const editedRoom = await Room.findById(edited._id);
+      const untouchedRoom = await Room.findById(untouched._id);
+      expect(editedRoom!.detachedFromSeries).toBe(true);
+      expect(editedRoom!.title).toBe("Special Edition");
+      expect(untouchedRoom!.title).toBe("Renamed Standup");
+    });
+  });
+
+  describe("PATCH /api/series/:id", () => {
+    let seriesId: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send(weeklySeries())
+        .expect(201);
+      seriesId = response.body.series._id;
+    });
+
+    it("should not let a creator with an unverified email invite users", async () => {
+      await createTestUser({
+        username: "seriesinvitee",
+        email: "seriesinvitee@example.com",
+      });
+      await User.updateOne(
+        { _id: testUser._id },
+        { $set: { emailVerified: false } }
+      );
+
+      const response = await request(app)
+        .patch(`/api/series/${seriesId}`)
+        .set(getAuthHeaders(token))
+        .send({ invitedUsernames: ["seriesinvitee"] })
+        .expect(403);
+      expect(response.body.reason).toBe("email_unverified");
+
+      const series = await RoomSeries.findById(seriesId);
+      expect(series!.invitedUsers).toHaveLength(0);
+    });
+
+    it("should reject a new rule with more occurrences than the limit", async () => {
+      const response = await request(app)
+        .patch(`/api/series/${seriesId}`)
+        .set(getAuthHeaders(token))
+        .send({
+          recurrence: {
+            frequency: "daily",
+            interval: 1,
+            until: new Date(firstStart.getTime() + 11000 * DAY_MS),
+          },
+        })
+        .expect(400);
+      expect(response.body.message).toContain("10000 occurrences");
+
+      const series = await RoomSeries.findById(seriesId);
+      expect(series!.recurrence.frequency).toBe("weekly");
+    });
+  });
+
+  describe("DELETE /api/series/:id", () => {
+    it("should end the series and cancel upcoming occurrences", async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send(weeklySeries())
+        .expect(201);
+
+      const endResponse = await request(app)
+        .delete(`/api/series/${response.body.series._id}`)
+        .set(getAuthHeaders(token))
+        .expect(200);
+
+      expect(endResponse.body.cancelledRooms).toBe(2);
+
+      const series = await RoomSeries.findById(response.body.series._id);
+      expect(series!.active).toBe(false);
+    });
+
+    it("should not allow other users to end the series", async () => {
+      const response = await request(app)
+        .post("/api/series")
+        .set(getAuthHeaders(token))
+        .send(weeklySeries())
+        .expect(201);
+
+      const otherUser = await createTestUser({
+        username: "otherseriesuser",
+        email: "otherseries@example.com",
+      });
+
+      await request(app)
+        .delete(`/api/series/${response.body.series._id}`)
+        .set(getAuthHeaders(await generateTestToken(otherUser._id.toString())))
+        .expect(403);
+    });
+  });
+});
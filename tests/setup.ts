@@ -36,4 +36,5 @@ beforeEach(async () => {
 // Environment variables for testing
 process.env.NODE_ENV = "test";
 process.env.JWT_SECRET = "test_jwt_secret_key";
+process.env.JWT_PREVIOUS_SECRETS = "previous_test_jwt_secret_key"; // Rotated out, still accepted
 process.env.LOG_LEVEL = "error"; // Reduce logging noise during tests
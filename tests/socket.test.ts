@@ -0,0 +1,416 @@
+import { Socket as ClientSocket } from "socket.io-client";
+import { Server as SocketIOServer } from "socket.io";
+import { RoomStatus, RoomType } from "../src/models/Room";
+import { listRoomPresence } from "../src/socket/presence";
+import sessionService from "../src/services/sessions";
+import reactionService from "../src/services/reactions";
+import { config } from "../src/config/env";
+import { sessionChannel } from "../src/utils/channels";
+import {
+  createTestUser,
+  createTestRoom,
+  createTestMessages,
+  generateTestToken,
+  startTestSocketServer,
+  connectTestSocket,
+  emitWithAck,
+  waitFor,
+} from "./helpers/testHelpers";
+
+// Services broadcast through the app's Socket.IO server; point them at the
+// server under test instead
+let mockAppIo: SocketIOServer | undefined;
+jest.mock("../src/index", () => ({
+  get io() {
+    return mockAppIo;
+  },
+}));
+
+describe("Socket Events", () => {
+  let server: { io: SocketIOServer; port: number; close: () => Promise<void> };
+  let clients: ClientSocket[];
+  let host: any;
+  let outsider: any;
+
+  const connect = async (user: any) => {
+    const client = await connectTestSocket(
+      server.port,
+      await generateTestToken(user._id.toString())
+    );
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = await startTestSocketServer();
+    mockAppIo = server.io;
+    clients = [];
+    host = await createTestUser({
+      username: "sockethost",
+      email: "sockethost@example.com",
+    });
+    outsider = await createTestUser({
+      username: "eavesdropper",
+      email: "eavesdropper@example.com",
+    });
+  });
+
+  afterEach(async () => {
+    clients.forEach((client) => client.disconnect());
+    await server.close();
+  });
+
+  describe("authentication", () => {
+    it("should refuse a handshake for a revoked session", async () => {
+      const token = await generateTestToken(outsider._id.toString());
+      const { sessionId } = (await sessionService.verifyAccessToken(token)) as {
+        sessionId: string;
+      };
+      await sessionService.revokeSession(sessionId, "test");
+
+      await expect(connectTestSocket(server.port, token)).rejects.toThrow(
+        "Session revoked"
+      );
+    });
+
+    it("should disconnect on revoke after the client leaves its session channel", async () => {
+      const token = await generateTestToken(outsider._id.toString());
+      const { sessionId } = (await sessionService.verifyAccessToken(token)) as {
+        sessionId: string;
+      };
+      const client = await connectTestSocket(server.port, token);
+      clients.push(client);
+
+      client.emit("leave_room", sessionChannel(sessionId));
+      await waitFor(100);
+
+      expect(
+        await server.io.in(sessionChannel(sessionId)).fetchSockets()
+      ).toHaveLength(1);
+
+      const disconnected = new Promise<string>((resolve) =>
+        client.once("disconnect", resolve)
+      );
+      await sessionService.revokeSession(sessionId, "test");
+
+      expect(await disconnected).toBe("io server disconnect");
+    });
+  });
+
+  describe("join_room", () => {
+    it("should not let an uninvited user listen to a private room", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        roomType: RoomType.PRIVATE,
+        status: RoomStatus.LIVE,
+        participants: [host._id],
+      });
+      const roomId = room._id.toString();
+
+      const eavesdropper = await connect(outsider);
+      const received: any[] = [];
+      eavesdropper.on("receive_message", (payload) => received.push(payload));
+
+      const ack = await emitWithAck(eavesdropper, "join_room", roomId);
+      expect(ack).toMatchObject({ ok: false, reason: "forbidden" });
+
+      server.io.to(roomId).emit("receive_message", { roomId, secret: true });
+      await waitFor(200);
+
+      expect(received).toHaveLength(0);
+      expect(await server.io.in(roomId).fetchSockets()).toHaveLength(0);
+    });
+
+    it("should let invited users join a private room", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        roomType: RoomType.PRIVATE,
+        status: RoomStatus.LIVE,
+        participants: [host._id],
+        invitedUsers: [outsider._id],
+      });
+
+      const client = await connect(outsider);
+      const ack = await emitWithAck(client, "join_room", room._id.toString());
+
+      expect(ack).toEqual({ ok: true, roomId: room._id.toString() });
+    });
+
+    it("should reject closed and nonexistent rooms", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.CLOSED,
+      });
+      const client = await connect(outsider);
+
+      const closedAck = await emitWithAck(
+        client,
+        "join_room",
+        room._id.toString()
+      );
+      expect(closedAck).toMatchObject({ ok: false, reason: "room_closed" });
+
+      const missingAck = await emitWithAck(
+        client,
+        "join_room",
+        "64b7f0c2e4b0a1a2b3c4d5e6"
+      );
+      expect(missingAck).toMatchObject({ ok: false, reason: "not_found" });
+    });
+
+    it("should keep earlier rooms when joining another", async () => {
+      const first = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const second = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const client = await connect(outsider);
+      const received: string[] = [];
+      client.on("receive_message", (payload) => received.push(payload.roomId));
+
+      await emitWithAck(client, "join_room", first._id.toString());
+      await emitWithAck(client, "join_room", second._id.toString());
+
+      server.io
+        .to(first._id.toString())
+        .emit("receive_message", { roomId: first._id.toString() });
+      server.io
+        .to(second._id.toString())
+        .emit("receive_message", { roomId: second._id.toString() });
+      await waitFor(200);
+
+      expect(received.sort()).toEqual(
+        [first._id.toString(), second._id.toString()].sort()
+      );
+    });
+  });
+
+  describe("reconnect resync", () => {
+    let roomId: string;
+
+    beforeEach(async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      roomId = room._id.toString();
+    });
+
+    it("should replay messages sent after the last one the client saw", async () => {
+      const messages = await createTestMessages(roomId, host._id.toString(), 3);
+      const client = await connect(outsider);
+
+      const ack = await emitWithAck(client, "join_room", {
+        roomId,
+        lastMessageId: messages[0]._id.toString(),
+      });
+
+      expect(ack.ok).toBe(true);
+      expect(ack.resync.reloadRequired).toBe(false);
+      expect(ack.resync.messages.map((m: any) => m.content)).toEqual([
+        "Test message 2",
+        "Test message 3",
+      ]);
+    });
+
+    it("should ask for a full reload when the gap is too large", async () => {
+      await createTestMessages(roomId, host._id.toString(), 101);
+      const client = await connect(outsider);
+
+      const ack = await emitWithAck(client, "join_room", {
+        roomId,
+        lastSeenAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      });
+
+      expect(ack.resync).toEqual({
+        messages: [],
+        reloadRequired: true,
+        reason: "gap_too_large",
+      });
+    });
+
+    it("should not resync a plain join", async () => {
+      const client = await connect(outsider);
+
+      const ack = await emitWithAck(client, "join_room", roomId);
+
+      expect(ack).toEqual({ ok: true, roomId });
+    });
+  });
+
+  describe("typing indicators", () => {
+    it("should throttle typing_start and relay typing_stop", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const roomId = room._id.toString();
+
+      const observer = await connect(host);
+      const typist = await connect(outsider);
+      await emitWithAck(observer, "join_room", roomId);
+      await emitWithAck(typist, "join_room", roomId);
+
+      const started: any[] = [];
+      const stopped: any[] = [];
+      const echoed: any[] = [];
+      observer.on("typing_start", (payload) => started.push(payload));
+      observer.on("typing_stop", (payload) => stopped.push(payload));
+      typist.on("typing_start", (payload) => echoed.push(payload));
+
+      typist.emit("typing_start", roomId);
+      typist.emit("typing_start", roomId);
+      typist.emit("typing_start", roomId);
+      await waitFor(100);
+
+      expect(started).toHaveLength(1);
+      expect(started[0]).toMatchObject({ roomId, username: "eavesdropper" });
+      expect(echoed).toHaveLength(0);
+
+      typist.emit("typing_stop", roomId);
+      await waitFor(100);
+
+      expect(stopped).toHaveLength(1);
+    });
+
+    it("should ignore typing in rooms the socket has not joined", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const roomId = room._id.toString();
+
+      const observer = await connect(host);
+      await emitWithAck(observer, "join_room", roomId);
+      const started: any[] = [];
+      observer.on("typing_start", (payload) => started.push(payload));
+
+      const typist = await connect(outsider);
+      typist.emit("typing_start", roomId);
+      await waitFor(100);
+
+      expect(started).toHaveLength(0);
+    });
+  });
+
+  describe("presence", () => {
+    it("should keep a user in the room until their last tab closes", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const roomId = room._id.toString();
+
+      const observer = await connect(host);
+      await emitWithAck(observer, "join_room", roomId);
+
+      const joined: any[] = [];
+      const left: any[] = [];
+      observer.on("user_joined_room", (payload) => joined.push(payload));
+      observer.on("user_left_room", (payload) => left.push(payload));
+
+      const firstTab = await connect(outsider);
+      const secondTab = await connect(outsider);
+      await emitWithAck(firstTab, "join_room", roomId);
+      await emitWithAck(secondTab, "join_room", roomId);
+      await waitFor(100);
+      expect(joined).toHaveLength(1);
+
+      firstTab.disconnect();
+      await waitFor(200);
+      expect(left).toHaveLength(0);
+      expect(
+        await server.io.in(outsider._id.toString()).fetchSockets()
+      ).toHaveLength(1);
+
+      secondTab.disconnect();
+      await waitFor(200);
+      expect(left).toHaveLength(1);
+      expect(left[0].userId).toBe(outsider._id.toString());
+      expect(
+        await server.io.in(outsider._id.toString()).fetchSockets()
+      ).toHaveLength(0);
+    });
+
+    it("should send a presence snapshot to a socket that joins", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const roomId = room._id.toString();
+
+      const hostSocket = await connect(host);
+      await emitWithAck(hostSocket, "join_room", roomId);
+
+      const client = await connect(outsider);
+      const snapshot = new Promise<any>((resolve) =>
+        client.once("presence_snapshot", resolve)
+      );
+      await emitWithAck(client, "join_room", roomId);
+
+      const { users } = await snapshot;
+      expect(users.map((user: any) => user.username)).toEqual([
+        "sockethost",
+        "eavesdropper",
+      ]);
+      expect(users[0].joinedAt).toBeDefined();
+    });
+
+    it("should build the roster from live connections only", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const roomId = room._id.toString();
+
+      const hostSocket = await connect(host);
+      const client = await connect(outsider);
+      await emitWithAck(hostSocket, "join_room", roomId);
+      await emitWithAck(client, "join_room", roomId);
+
+      // Drop the connection without the client saying goodbye
+      const [serverSide] = await server.io
+        .in(outsider._id.toString())
+        .fetchSockets();
+      serverSide.disconnect(true);
+      await waitFor(100);
+
+      const roster = await listRoomPresence(server.io, roomId);
+      expect(roster.map((entry) => entry.userId)).toEqual([
+        host._id.toString(),
+      ]);
+    });
+  });
+
+  describe("room reactions", () => {
+    it("should coalesce a burst into one receive_reaction per emoji", async () => {
+      const room = await createTestRoom(host._id.toString(), {
+        status: RoomStatus.LIVE,
+      });
+      const roomId = room._id.toString();
+
+      const watcher = await connect(outsider);
+      await emitWithAck(watcher, "join_room", roomId);
+      const received: any[] = [];
+      watcher.on("receive_reaction", (payload) => received.push(payload));
+
+      reactionService.broadcastRoomReaction(roomId, "🎉", "sockethost");
+      reactionService.broadcastRoomReaction(roomId, "🎉", "eavesdropper");
+      reactionService.broadcastRoomReaction(roomId, "👍", "sockethost");
+      reactionService.broadcastRoomReaction(roomId, "🎉", "sockethost");
+      reactionService.broadcastRoomReaction(roomId, "🎉", "eavesdropper");
+      await waitFor(100);
+
+      // The first reaction in a quiet room goes out straight away
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ roomId, emoji: "🎉", count: 1 });
+
+      // The rest arrive together once the burst window closes
+      await waitFor(config.realtime.reactionBurstWindowMs + 100);
+
+      expect(received).toHaveLength(3);
+      const burst = received.slice(1);
+      expect(burst.filter((event) => event.emoji === "🎉")).toEqual([
+        expect.objectContaining({
+          count: 3,
+          usernames: ["eavesdropper", "sockethost"],
+        }),
+      ]);
+      expect(burst.filter((event) => event.emoji === "👍")).toEqual([
+        expect.objectContaining({ count: 1, usernames: ["sockethost"] }),
+      ]);
+    });
+  });
+});
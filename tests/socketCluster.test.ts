@@ -0,0 +1,112 @@
+import { Socket as ClientSocket } from "socket.io-client";
+import { Server as SocketIOServer } from "socket.io";
+import { RoomStatus } from "../src/models/Room";
+import { listRoomPresence } from "../src/socket/presence";
+import {
+  createTestUser,
+  createTestRoom,
+  generateTestToken,
+  startTestSocketServer,
+  connectTestSocket,
+  emitWithAck,
+  waitFor,
+} from "./helpers/testHelpers";
+
+type TestNode = {
+  io: SocketIOServer;
+  port: number;
+  close: () => Promise<void>;
+};
+
+// Needs a Redis server, so only runs when asked for:
+// TEST_REDIS=true npm test (REDIS_HOST/REDIS_PORT when it is not local)
+const describeWithRedis =
+  process.env.TEST_REDIS === "true" ? describe : describe.skip;
+
+// Two server instances in one process, sharing events through Redis
+describeWithRedis("Socket Events across instances", () => {
+  let nodeA: TestNode;
+  let nodeB: TestNode;
+  let clients: ClientSocket[];
+  let host: any;
+  let guest: any;
+  let roomId: string;
+
+  const connect = async (node: TestNode, user: any) => {
+    const client = await connectTestSocket(
+      node.port,
+      await generateTestToken(user._id.toString())
+    );
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    nodeA = await startTestSocketServer({ redis: true });
+    nodeB = await startTestSocketServer({ redis: true });
+    clients = [];
+    host = await createTestUser({
+      username: "clusterhost",
+      email: "clusterhost@example.com",
+    });
+    guest = await createTestUser({
+      username: "clusterguest",
+      email: "clusterguest@example.com",
+    });
+    const room = await createTestRoom(host._id.toString(), {
+      status: RoomStatus.LIVE,
+    });
+    roomId = room._id.toString();
+  });
+
+  afterEach(async () => {
+    clients.forEach((client) => client.disconnect());
+    await Promise.all([nodeA.close(), nodeB.close()]);
+  });
+
+  it("should deliver room events emitted on another instance", async () => {
+    const client = await connect(nodeA, guest);
+    await emitWithAck(client, "join_room", roomId);
+
+    const received = new Promise<any>((resolve) =>
+      client.once("receive_message", resolve)
+    );
+    nodeB.io.to(roomId).emit("receive_message", { roomId, fromNode: "B" });
+
+    expect(await received).toEqual({ roomId, fromNode: "B" });
+  });
+
+  it("should list users connected to either instance", async () => {
+    const hostSocket = await connect(nodeA, host);
+    const guestSocket = await connect(nodeB, guest);
+    await emitWithAck(hostSocket, "join_room", roomId);
+    await emitWithAck(guestSocket, "join_room", roomId);
+
+    const roster = await listRoomPresence(nodeA.io, roomId);
+
+    expect(roster.map((entry) => entry.username).sort()).toEqual([
+      "clusterguest",
+      "clusterhost",
+    ]);
+  });
+
+  it("should keep a user present while a tab on another instance is open", async () => {
+    const observer = await connect(nodeA, host);
+    await emitWithAck(observer, "join_room", roomId);
+    const left: any[] = [];
+    observer.on("user_left_room", (payload) => left.push(payload));
+
+    const tabOnA = await connect(nodeA, guest);
+    const tabOnB = await connect(nodeB, guest);
+    await emitWithAck(tabOnA, "join_room", roomId);
+    await emitWithAck(tabOnB, "join_room", roomId);
+
+    tabOnA.disconnect();
+    await waitFor(300);
+    expect(left).toHaveLength(0);
+
+    tabOnB.disconnect();
+    await waitFor(300);
+    expect(left).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  verifyTotp,
+} from "../src/utils/totp";
+
+// Test secret from RFC 6238, appendix B
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP", () => {
+  it("should round-trip base32", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(RFC_SECRET).toString()).toBe("12345678901234567890");
+  });
+
+  it("should match the RFC 6238 test vectors", () => {
+    // The RFC lists 8-digit codes; these are their last 6 digits
+    expect(generateTotp(RFC_SECRET, Math.floor(59 / 30))).toBe("287082");
+    expect(generateTotp(RFC_SECRET, Math.floor(1111111109 / 30))).toBe(
+      "081804"
+    );
+    expect(generateTotp(RFC_SECRET, Math.floor(1234567890 / 30))).toBe(
+      "005924"
+    );
+  });
+
+  it("should accept codes from adjacent steps only", () => {
+    const now = 1234567890 * 1000;
+    const step = Math.floor(1234567890 / 30);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), 1, now)).toBe(
+      step
+    );
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, now)
+    ).toBe(step - 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), 1, now)
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", 1, now)).toBeNull();
+  });
+
+  it("should build an otpauth URI", () => {
+    expect(buildOtpAuthUri("RoomLoop", "host@example.com", RFC_SECRET)).toBe(
+      "otpauth://totp/RoomLoop%3Ahost%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=RoomLoop&algorithm=SHA1&digits=6&period=30"
+    );
+  });
+});